@@ -0,0 +1,153 @@
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+
+import { TaxoMxApiClient, TaxoMxClientOptions } from '../api/client.js';
+import { BulkConfirmationStore } from '../jobs/confirmations.js';
+import { ExtractionJobStore } from '../jobs/store.js';
+
+const accountProfileSchema = z
+  .object({
+    description: z.string().optional(),
+    // The token itself, or the name of an environment variable holding it
+    token: z.string().min(1).optional(),
+    tokenEnv: z.string().min(1).optional(),
+    accountantId: z.string().optional(),
+    appBaseUrl: z.string().url().optional(),
+    demoBaseUrl: z.string().url().optional(),
+  })
+  .strict()
+  .refine((profile) => Boolean(profile.token) !== Boolean(profile.tokenEnv), {
+    message: 'Set exactly one of token or tokenEnv',
+  });
+
+const accountsFileSchema = z
+  .object({
+    default: z.string().optional(),
+    accounts: z.record(accountProfileSchema),
+  })
+  .strict()
+  .refine((file) => Object.keys(file.accounts).length > 0, {
+    message: 'At least one account is required',
+  })
+  .refine((file) => !file.default || file.default in file.accounts, {
+    message: 'default must name one of the accounts',
+  });
+
+export interface AccountProfile {
+  name: string;
+  description?: string;
+  token: string;
+  accountantId?: string;
+  appBaseUrl?: string;
+  demoBaseUrl?: string;
+}
+
+/** Profile details safe to show the model; the token is never included. */
+export interface AccountSummary {
+  name: string;
+  description?: string;
+  accountantId?: string;
+  appBaseUrl?: string;
+  demoBaseUrl?: string;
+  active: boolean;
+}
+
+export interface Account {
+  profile: AccountProfile;
+  /** SHA-256 hex digest of the token, used as the account's audit identity. */
+  tokenId: string;
+  client: TaxoMxApiClient;
+  jobs: ExtractionJobStore;
+  confirmations: BulkConfirmationStore;
+}
+
+export interface AccountsFile {
+  profiles: AccountProfile[];
+  defaultName?: string;
+}
+
+export function loadAccountsFile(path: string): AccountsFile {
+  const parsed = accountsFileSchema.safeParse(JSON.parse(readFileSync(path, 'utf8')));
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid accounts file ${path}: ${parsed.error.issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ')}`
+    );
+  }
+
+  const profiles = Object.entries(parsed.data.accounts).map(([name, config]) => {
+    const token = config.token ?? process.env[config.tokenEnv as string];
+    if (!token) {
+      throw new Error(`Account ${name}: environment variable ${config.tokenEnv} is not set`);
+    }
+    const { tokenEnv: _tokenEnv, ...rest } = config;
+    return { ...rest, name, token };
+  });
+
+  return { profiles, defaultName: parsed.data.default };
+}
+
+/**
+ * Named Taxo accounts for the local server. Each account keeps its own client
+ * and job stores; tools act through whichever account is active.
+ */
+export class AccountRegistry {
+  private accounts = new Map<string, Account>();
+  private activeName: string;
+
+  constructor(
+    profiles: AccountProfile[],
+    clientOptions: Omit<TaxoMxClientOptions, 'token'>,
+    activeName?: string
+  ) {
+    for (const profile of profiles) {
+      this.accounts.set(profile.name, {
+        profile,
+        tokenId: createHash('sha256').update(profile.token).digest('hex'),
+        client: new TaxoMxApiClient({
+          ...clientOptions,
+          token: profile.token,
+          appBaseUrl: profile.appBaseUrl ?? clientOptions.appBaseUrl,
+          demoBaseUrl: profile.demoBaseUrl ?? clientOptions.demoBaseUrl,
+        }),
+        jobs: new ExtractionJobStore(),
+        confirmations: new BulkConfirmationStore(),
+      });
+    }
+
+    this.activeName = activeName ?? profiles[0].name;
+    if (!this.accounts.has(this.activeName)) {
+      throw new Error(`Unknown account: ${this.activeName}`);
+    }
+  }
+
+  get active(): Account {
+    return this.accounts.get(this.activeName) as Account;
+  }
+
+  use(name: string): AccountSummary {
+    if (!this.accounts.has(name)) {
+      const available = [...this.accounts.keys()].join(', ');
+      throw new Error(`Unknown account: ${name}. Available: ${available}`);
+    }
+    this.activeName = name;
+    return this.summary(this.active);
+  }
+
+  list(): AccountSummary[] {
+    return [...this.accounts.values()].map((account) => this.summary(account));
+  }
+
+  private summary({ profile }: Account): AccountSummary {
+    return {
+      name: profile.name,
+      description: profile.description,
+      accountantId: profile.accountantId,
+      appBaseUrl: profile.appBaseUrl,
+      demoBaseUrl: profile.demoBaseUrl,
+      active: profile.name === this.activeName,
+    };
+  }
+}
@@ -0,0 +1,71 @@
+/** Cache lifetimes per endpoint, in milliseconds. */
+export const CACHE_TTLS = {
+  categories: 60 * 60_000,
+  complianceOpinion: 60_000,
+  taxStatus: 5 * 60_000,
+  monthlyTaxReport: 5 * 60_000,
+  contacts: 10 * 60_000,
+  invoices: 2 * 60_000,
+} as const;
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+  /** Labels such as `oc:<RFC>` used to drop entries when the data changes. */
+  tags: string[];
+}
+
+/**
+ * In-process cache for Taxo GET responses. Entries expire after their TTL and
+ * can be dropped early by tag, e.g. once a new extraction is requested.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries = 1000) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): unknown | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  set(key: string, value: unknown, ttlMs: number, tags: string[] = []): void {
+    // Re-insert so the Map's order tracks recency of writes
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs, tags });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /** Drops every entry carrying the tag, across all tokens. */
+  invalidate(tag: string): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.tags.includes(tag)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/** Tags for one RFC's documents of an extraction type, plus the type-wide tag. */
+export function extractionTags(type: 'oc' | 'csf' | 'cfdi', rfc: string): string[] {
+  return [type, `${type}:${rfc.toUpperCase()}`];
+}
@@ -0,0 +1,124 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+import { redactArguments } from '../audit/log.js';
+
+export type CassetteMode = 'record' | 'replay';
+
+/** One Taxo exchange as stored on disk. The token is never written. */
+export interface Cassette {
+  recordedAt: string;
+  request: {
+    method: string;
+    /** Path and query, without the base URL, so cassettes replay against any environment. */
+    path: string;
+    /** Request body with CIEC and other secrets replaced by `[REDACTED]`. */
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+  };
+}
+
+/** Raised in replay mode when no cassette matches a request. */
+export class CassetteMissError extends Error {
+  constructor(
+    public method: string,
+    public path: string
+  ) {
+    super(`No recorded Taxo response for ${method} ${path}`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+// Headers the client reads from Taxo responses
+const RECORDED_HEADERS = ['content-type', 'retry-after'];
+
+/**
+ * Directory of recorded Taxo responses, one JSON file per distinct request.
+ * In `record` mode the client writes each final response (after retries); a
+ * request seen again overwrites its cassette. In `replay` mode the client
+ * answers from the files and never touches the network.
+ */
+export class CassetteStore {
+  constructor(
+    public readonly dir: string,
+    public readonly mode: CassetteMode
+  ) {
+    if (mode === 'record') {
+      mkdirSync(dir, { recursive: true });
+    } else if (!existsSync(dir)) {
+      throw new Error(`Cassette directory ${dir} does not exist`);
+    }
+  }
+
+  /** Stores the response and returns an unread copy for the caller. */
+  async record(method: string, path: string, body: unknown, response: Response): Promise<Response> {
+    const text = await response.text();
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value !== null) {
+        headers[name] = value;
+      }
+    }
+
+    const sanitizedBody = body === undefined ? undefined : redactArguments(body);
+    const cassette: Cassette = {
+      recordedAt: new Date().toISOString(),
+      request: { method, path, body: sanitizedBody },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        body: this.sanitizeResponseBody(text),
+      },
+    };
+    writeFileSync(
+      this.fileFor(method, path, sanitizedBody),
+      `${JSON.stringify(cassette, null, 2)}\n`
+    );
+
+    return new Response(text, { status: response.status, statusText: response.statusText, headers });
+  }
+
+  replay(method: string, path: string, body: unknown): Response {
+    const file = this.fileFor(method, path, body === undefined ? undefined : redactArguments(body));
+    if (!existsSync(file)) {
+      throw new CassetteMissError(method, path);
+    }
+
+    const { response } = JSON.parse(readFileSync(file, 'utf8')) as Cassette;
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+
+  // Readable prefix for browsing the directory, hash suffix for uniqueness
+  private fileFor(method: string, path: string, sanitizedBody: unknown): string {
+    const digest = createHash('sha256')
+      .update(`${method} ${path} ${JSON.stringify(sanitizedBody ?? null)}`)
+      .digest('hex')
+      .slice(0, 16);
+    const slug = path
+      .replace(/[^A-Za-z0-9]+/g, '_')
+      .replace(/^_|_$/g, '')
+      .slice(0, 80);
+    return join(this.dir, `${method.toLowerCase()}_${slug}_${digest}.json`);
+  }
+
+  // Secrets echoed back in a JSON response are redacted too; other bodies are kept verbatim
+  private sanitizeResponseBody(text: string): string {
+    try {
+      return JSON.stringify(redactArguments(JSON.parse(text)));
+    } catch {
+      return text;
+    }
+  }
+}
@@ -0,0 +1,388 @@
+import { XMLParser } from 'fast-xml-parser';
+
+export class CfdiParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CfdiParseError';
+  }
+}
+
+// ============================================
+// Parsed CFDI Types
+// ============================================
+
+export interface CfdiTaxLine {
+  base?: number;
+  impuesto: string;
+  tipoFactor?: string;
+  tasaOCuota?: number;
+  importe?: number;
+}
+
+export interface CfdiTaxes {
+  totalImpuestosTrasladados?: number;
+  totalImpuestosRetenidos?: number;
+  traslados: CfdiTaxLine[];
+  retenciones: CfdiTaxLine[];
+}
+
+export interface CfdiConcepto {
+  claveProdServ?: string;
+  noIdentificacion?: string;
+  cantidad?: number;
+  claveUnidad?: string;
+  unidad?: string;
+  descripcion?: string;
+  valorUnitario?: number;
+  importe?: number;
+  descuento?: number;
+  objetoImp?: string;
+  impuestos: CfdiTaxes;
+}
+
+export interface CfdiTimbreFiscalDigital {
+  version?: string;
+  uuid: string;
+  fechaTimbrado?: string;
+  rfcProvCertif?: string;
+  noCertificadoSAT?: string;
+}
+
+export interface CfdiDocumentoRelacionado {
+  idDocumento: string;
+  serie?: string;
+  folio?: string;
+  monedaDR?: string;
+  equivalenciaDR?: number;
+  metodoDePagoDR?: string;
+  numParcialidad?: number;
+  impSaldoAnt?: number;
+  impPagado?: number;
+  impSaldoInsoluto?: number;
+  objetoImpDR?: string;
+  impuestos?: CfdiTaxes;
+}
+
+export interface CfdiPago {
+  fechaPago?: string;
+  formaDePagoP?: string;
+  monedaP?: string;
+  tipoCambioP?: number;
+  monto?: number;
+  doctosRelacionados: CfdiDocumentoRelacionado[];
+}
+
+export interface CfdiPagos {
+  version?: string;
+  totales?: Record<string, number>;
+  pagos: CfdiPago[];
+}
+
+export interface CfdiNominaLine {
+  tipo?: string;
+  clave?: string;
+  concepto?: string;
+  importe?: number;
+  importeGravado?: number;
+  importeExento?: number;
+}
+
+export interface CfdiNomina {
+  version?: string;
+  tipoNomina?: string;
+  fechaPago?: string;
+  fechaInicialPago?: string;
+  fechaFinalPago?: string;
+  numDiasPagados?: number;
+  totalPercepciones?: number;
+  totalDeducciones?: number;
+  totalOtrosPagos?: number;
+  registroPatronal?: string;
+  receptor: Record<string, string>;
+  percepciones: CfdiNominaLine[];
+  deducciones: CfdiNominaLine[];
+  otrosPagos: CfdiNominaLine[];
+}
+
+export interface ParsedCfdi {
+  version: string;
+  serie?: string;
+  folio?: string;
+  fecha?: string;
+  tipoDeComprobante?: string;
+  formaPago?: string;
+  metodoPago?: string;
+  moneda?: string;
+  tipoCambio?: number;
+  subTotal?: number;
+  descuento?: number;
+  total?: number;
+  lugarExpedicion?: string;
+  exportacion?: string;
+  emisor: {
+    rfc: string;
+    nombre?: string;
+    regimenFiscal?: string;
+  };
+  receptor: {
+    rfc: string;
+    nombre?: string;
+    usoCFDI?: string;
+    domicilioFiscalReceptor?: string;
+    regimenFiscalReceptor?: string;
+  };
+  conceptos: CfdiConcepto[];
+  impuestos: CfdiTaxes;
+  timbreFiscalDigital?: CfdiTimbreFiscalDigital;
+  pagos?: CfdiPagos;
+  nomina?: CfdiNomina[];
+}
+
+// ============================================
+// Parser
+// ============================================
+
+type XmlNode = Record<string, unknown>;
+
+// Nodes that may repeat and must always be read as arrays
+const REPEATED_NODES = new Set([
+  'Concepto',
+  'Traslado',
+  'Retencion',
+  'TrasladoDR',
+  'RetencionDR',
+  'Pago',
+  'DoctoRelacionado',
+  'Nomina',
+  'Percepcion',
+  'Deduccion',
+  'OtroPago',
+]);
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  removeNSPrefix: true,
+  parseAttributeValue: false,
+  parseTagValue: false,
+  // Attributes can share a node's name, e.g. Concepto on a Nómina Percepcion
+  isArray: (name, _jpath, _isLeafNode, isAttribute) => !isAttribute && REPEATED_NODES.has(name),
+});
+
+function node(parent: XmlNode | undefined, name: string): XmlNode | undefined {
+  const child = parent?.[name];
+  return child && typeof child === 'object' && !Array.isArray(child)
+    ? (child as XmlNode)
+    : undefined;
+}
+
+function nodes(parent: XmlNode | undefined, name: string): XmlNode[] {
+  const children = parent?.[name];
+  return Array.isArray(children) ? (children as XmlNode[]) : [];
+}
+
+function text(parent: XmlNode | undefined, name: string): string | undefined {
+  const value = parent?.[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function amount(parent: XmlNode | undefined, name: string): number | undefined {
+  const value = text(parent, name);
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+function parseTaxLine(line: XmlNode, suffix = ''): CfdiTaxLine {
+  return {
+    base: amount(line, `Base${suffix}`),
+    impuesto: text(line, `Impuesto${suffix}`) ?? '',
+    tipoFactor: text(line, `TipoFactor${suffix}`),
+    tasaOCuota: amount(line, `TasaOCuota${suffix}`),
+    importe: amount(line, `Importe${suffix}`),
+  };
+}
+
+function parseTaxes(impuestos: XmlNode | undefined, suffix = ''): CfdiTaxes {
+  return {
+    totalImpuestosTrasladados: amount(impuestos, 'TotalImpuestosTrasladados'),
+    totalImpuestosRetenidos: amount(impuestos, 'TotalImpuestosRetenidos'),
+    traslados: nodes(node(impuestos, `Traslados${suffix}`), `Traslado${suffix}`).map((line) =>
+      parseTaxLine(line, suffix)
+    ),
+    retenciones: nodes(node(impuestos, `Retenciones${suffix}`), `Retencion${suffix}`).map(
+      (line) => parseTaxLine(line, suffix)
+    ),
+  };
+}
+
+function parseConcepto(concepto: XmlNode): CfdiConcepto {
+  return {
+    claveProdServ: text(concepto, 'ClaveProdServ'),
+    noIdentificacion: text(concepto, 'NoIdentificacion'),
+    cantidad: amount(concepto, 'Cantidad'),
+    claveUnidad: text(concepto, 'ClaveUnidad'),
+    unidad: text(concepto, 'Unidad'),
+    descripcion: text(concepto, 'Descripcion'),
+    valorUnitario: amount(concepto, 'ValorUnitario'),
+    importe: amount(concepto, 'Importe'),
+    descuento: amount(concepto, 'Descuento'),
+    objetoImp: text(concepto, 'ObjetoImp'),
+    impuestos: parseTaxes(node(concepto, 'Impuestos')),
+  };
+}
+
+function parsePagos(pagos: XmlNode): CfdiPagos {
+  const totales = node(pagos, 'Totales');
+
+  return {
+    version: text(pagos, 'Version'),
+    totales: totales
+      ? Object.fromEntries(
+          Object.keys(totales)
+            .map((key) => [key[0].toLowerCase() + key.slice(1), amount(totales, key)] as const)
+            .filter((entry): entry is [string, number] => entry[1] !== undefined)
+        )
+      : undefined,
+    pagos: nodes(pagos, 'Pago').map((pago) => ({
+      fechaPago: text(pago, 'FechaPago'),
+      formaDePagoP: text(pago, 'FormaDePagoP'),
+      monedaP: text(pago, 'MonedaP'),
+      tipoCambioP: amount(pago, 'TipoCambioP'),
+      monto: amount(pago, 'Monto'),
+      doctosRelacionados: nodes(pago, 'DoctoRelacionado').map((docto) => {
+        const impuestosDR = node(docto, 'ImpuestosDR');
+        return {
+          idDocumento: text(docto, 'IdDocumento') ?? '',
+          serie: text(docto, 'Serie'),
+          folio: text(docto, 'Folio'),
+          monedaDR: text(docto, 'MonedaDR'),
+          equivalenciaDR: amount(docto, 'EquivalenciaDR'),
+          metodoDePagoDR: text(docto, 'MetodoDePagoDR'),
+          numParcialidad: amount(docto, 'NumParcialidad'),
+          impSaldoAnt: amount(docto, 'ImpSaldoAnt'),
+          impPagado: amount(docto, 'ImpPagado'),
+          impSaldoInsoluto: amount(docto, 'ImpSaldoInsoluto'),
+          objetoImpDR: text(docto, 'ObjetoImpDR'),
+          impuestos: impuestosDR ? parseTaxes(impuestosDR, 'DR') : undefined,
+        };
+      }),
+    })),
+  };
+}
+
+function parseNominaLines(
+  group: XmlNode | undefined,
+  name: string,
+  typeAttribute: string
+): CfdiNominaLine[] {
+  return nodes(group, name).map((line) => ({
+    tipo: text(line, typeAttribute),
+    clave: text(line, 'Clave'),
+    concepto: text(line, 'Concepto'),
+    importe: amount(line, 'Importe'),
+    importeGravado: amount(line, 'ImporteGravado'),
+    importeExento: amount(line, 'ImporteExento'),
+  }));
+}
+
+function parseNomina(nomina: XmlNode): CfdiNomina {
+  const receptor = node(nomina, 'Receptor') ?? {};
+
+  return {
+    version: text(nomina, 'Version'),
+    tipoNomina: text(nomina, 'TipoNomina'),
+    fechaPago: text(nomina, 'FechaPago'),
+    fechaInicialPago: text(nomina, 'FechaInicialPago'),
+    fechaFinalPago: text(nomina, 'FechaFinalPago'),
+    numDiasPagados: amount(nomina, 'NumDiasPagados'),
+    totalPercepciones: amount(nomina, 'TotalPercepciones'),
+    totalDeducciones: amount(nomina, 'TotalDeducciones'),
+    totalOtrosPagos: amount(nomina, 'TotalOtrosPagos'),
+    registroPatronal: text(node(nomina, 'Emisor'), 'RegistroPatronal'),
+    receptor: Object.fromEntries(
+      Object.entries(receptor).filter(
+        (entry): entry is [string, string] => typeof entry[1] === 'string'
+      )
+    ),
+    percepciones: parseNominaLines(node(nomina, 'Percepciones'), 'Percepcion', 'TipoPercepcion'),
+    deducciones: parseNominaLines(node(nomina, 'Deducciones'), 'Deduccion', 'TipoDeduccion'),
+    otrosPagos: parseNominaLines(node(nomina, 'OtrosPagos'), 'OtroPago', 'TipoOtroPago'),
+  };
+}
+
+/**
+ * Parses CFDI 3.3 or 4.0 XML into structured JSON, including the
+ * TimbreFiscalDigital, Pagos (1.0/2.0) and Nómina 1.2 complements.
+ */
+export function parseCfdi(xml: string): ParsedCfdi {
+  let document: XmlNode;
+  try {
+    document = parser.parse(xml) as XmlNode;
+  } catch (error) {
+    throw new CfdiParseError(
+      `Invalid XML: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const comprobante = node(document, 'Comprobante');
+  if (!comprobante) {
+    throw new CfdiParseError('Missing cfdi:Comprobante root node');
+  }
+
+  const version = text(comprobante, 'Version') ?? text(comprobante, 'version');
+  if (version !== '3.3' && version !== '4.0') {
+    throw new CfdiParseError(`Unsupported CFDI version: ${version ?? 'unknown'}`);
+  }
+
+  const emisor = node(comprobante, 'Emisor');
+  const receptor = node(comprobante, 'Receptor');
+  const complemento = node(comprobante, 'Complemento');
+  const timbre = node(complemento, 'TimbreFiscalDigital');
+  const pagos = node(complemento, 'Pagos');
+  const nomina = nodes(complemento, 'Nomina');
+
+  return {
+    version,
+    serie: text(comprobante, 'Serie'),
+    folio: text(comprobante, 'Folio'),
+    fecha: text(comprobante, 'Fecha'),
+    tipoDeComprobante: text(comprobante, 'TipoDeComprobante'),
+    formaPago: text(comprobante, 'FormaPago'),
+    metodoPago: text(comprobante, 'MetodoPago'),
+    moneda: text(comprobante, 'Moneda'),
+    tipoCambio: amount(comprobante, 'TipoCambio'),
+    subTotal: amount(comprobante, 'SubTotal'),
+    descuento: amount(comprobante, 'Descuento'),
+    total: amount(comprobante, 'Total'),
+    lugarExpedicion: text(comprobante, 'LugarExpedicion'),
+    exportacion: text(comprobante, 'Exportacion'),
+    emisor: {
+      rfc: text(emisor, 'Rfc') ?? '',
+      nombre: text(emisor, 'Nombre'),
+      regimenFiscal: text(emisor, 'RegimenFiscal'),
+    },
+    receptor: {
+      rfc: text(receptor, 'Rfc') ?? '',
+      nombre: text(receptor, 'Nombre'),
+      usoCFDI: text(receptor, 'UsoCFDI'),
+      domicilioFiscalReceptor: text(receptor, 'DomicilioFiscalReceptor'),
+      regimenFiscalReceptor: text(receptor, 'RegimenFiscalReceptor'),
+    },
+    conceptos: nodes(node(comprobante, 'Conceptos'), 'Concepto').map(parseConcepto),
+    impuestos: parseTaxes(node(comprobante, 'Impuestos')),
+    timbreFiscalDigital: timbre
+      ? {
+          version: text(timbre, 'Version'),
+          uuid: (text(timbre, 'UUID') ?? '').toUpperCase(),
+          fechaTimbrado: text(timbre, 'FechaTimbrado'),
+          rfcProvCertif: text(timbre, 'RfcProvCertif'),
+          noCertificadoSAT: text(timbre, 'NoCertificadoSAT'),
+        }
+      : undefined,
+    pagos: pagos ? parsePagos(pagos) : undefined,
+    nomina: nomina.length > 0 ? nomina.map(parseNomina) : undefined,
+  };
+}
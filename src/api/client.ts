@@ -1,3 +1,35 @@
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+
+import { CACHE_TTLS, extractionTags, ResponseCache } from './cache.js';
+import { CassetteStore } from './cassettes.js';
+import { ConcurrencyLimiter } from './limiter.js';
+import {
+  Category,
+  categoryListSchema,
+  ComplianceOpinion,
+  complianceOpinionSchema,
+  Contact,
+  contactListSchema,
+  CreateTaxpayerResponse,
+  createTaxpayerResponseSchema,
+  ExtractionRequestResponse,
+  extractionRequestSchema,
+  Invoice,
+  invoiceListSchema,
+  MonthlyTaxReport,
+  monthlyTaxReportSchema,
+  TaxStatus,
+  taxStatusSchema,
+} from './models.js';
+import {
+  backoffDelay,
+  isRetryableStatus,
+  parseRetryAfter,
+  RetryOptions,
+  sleep,
+} from './retry.js';
+
 export class TaxoMxApiError extends Error {
   constructor(
     public statusCode: number,
@@ -9,21 +41,159 @@ export class TaxoMxApiError extends Error {
   }
 }
 
+/**
+ * Raised when Taxo answers successfully but with a body we cannot interpret.
+ * Reported as 502 Bad Gateway: the upstream reply, not the caller, is at fault.
+ */
+export class TaxoMxResponseValidationError extends TaxoMxApiError {
+  constructor(path: string, issues: z.ZodIssue[]) {
+    super(502, `Unexpected response shape from ${path}`, issues);
+    this.name = 'TaxoMxResponseValidationError';
+  }
+}
+
+/** Raised when Taxo does not answer within the configured timeout. */
+export class TaxoMxTimeoutError extends TaxoMxApiError {
+  constructor(path: string, timeoutMs: number) {
+    super(408, `Request to ${path} timed out after ${timeoutMs}ms`);
+    this.name = 'TaxoMxTimeoutError';
+  }
+}
+
 export interface TaxoMxClientOptions {
   token: string;
   appBaseUrl?: string;
   demoBaseUrl?: string;
+  /** Per-attempt timeout in milliseconds. */
+  timeoutMs?: number;
+  /** Retries after the first attempt for transient failures. */
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  /** Longest wait accepted between attempts, including `Retry-After`. */
+  retryMaxDelayMs?: number;
+  /** Share one limiter between clients to cap concurrency process-wide. */
+  limiter?: ConcurrencyLimiter;
+  maxConcurrency?: number;
+  /** Share one cache between clients; entries are keyed by token so they never cross accounts. */
+  cache?: ResponseCache;
+  /** Set to false to skip caching when no shared cache is given. */
+  cacheEnabled?: boolean;
+  /** Called after every attempt against Taxo, including retries. */
+  onAttempt?: (attempt: UpstreamAttempt) => void;
+  /** Record responses to, or replay them from, a cassette directory. */
+  cassettes?: CassetteStore;
+}
+
+export interface UpstreamAttempt {
+  /** Origin of the Taxo API, e.g. `https://app.taxo.co`. */
+  baseUrl: string;
+  method: string;
+  /** HTTP status, or `network`/`timeout` when no response arrived. */
+  status: number | 'network' | 'timeout';
+  durationMs: number;
 }
 
+export interface ReadOptions {
+  /** Skip the response cache and fetch from Taxo; the fresh response is cached. */
+  refresh?: boolean;
+}
+
+export const DEFAULT_APP_BASE_URL = 'https://app.taxo.co';
+export const DEFAULT_DEMO_BASE_URL = 'https://demo.taxo.co';
+
 export class TaxoMxApiClient {
   private token: string;
   private appBaseUrl: string;
   private demoBaseUrl: string;
+  private timeoutMs: number;
+  private retry: RetryOptions;
+  private limiter: ConcurrencyLimiter;
+  private cache?: ResponseCache;
+  private cacheScope: string;
+  private onAttempt?: (attempt: UpstreamAttempt) => void;
+  private cassettes?: CassetteStore;
 
   constructor(options: TaxoMxClientOptions) {
     this.token = options.token;
-    this.appBaseUrl = options.appBaseUrl || 'https://app.taxo.co';
-    this.demoBaseUrl = options.demoBaseUrl || 'https://demo.taxo.co';
+    this.appBaseUrl = options.appBaseUrl || DEFAULT_APP_BASE_URL;
+    this.demoBaseUrl = options.demoBaseUrl || DEFAULT_DEMO_BASE_URL;
+    this.timeoutMs = options.timeoutMs ?? 30_000;
+    this.retry = {
+      maxRetries: options.maxRetries ?? 2,
+      baseDelayMs: options.retryBaseDelayMs ?? 500,
+      maxDelayMs: options.retryMaxDelayMs ?? 30_000,
+    };
+    this.limiter = options.limiter ?? new ConcurrencyLimiter(options.maxConcurrency ?? 4);
+    this.cache =
+      options.cache ?? (options.cacheEnabled === false ? undefined : new ResponseCache());
+    this.cacheScope = createHash('sha256').update(options.token).digest('hex');
+    this.onAttempt = options.onAttempt;
+    this.cassettes = options.cassettes;
+  }
+
+  private async fetchWithTimeout(url: string, path: string, init: RequestInit): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    const startedAt = Date.now();
+    let status: UpstreamAttempt['status'] = 'network';
+
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      status = response.status;
+      return response;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        status = 'timeout';
+        throw new TaxoMxTimeoutError(path, this.timeoutMs);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      this.onAttempt?.({
+        baseUrl: new URL(url).origin,
+        method: init.method ?? 'GET',
+        status,
+        durationMs: Date.now() - startedAt,
+      });
+    }
+  }
+
+  private async fetchWithRetry(
+    url: string,
+    path: string,
+    method: 'GET' | 'POST',
+    init: RequestInit
+  ): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < this.retry.maxRetries;
+
+      // A slot covers one attempt only, so backoff and Retry-After waits leave it free
+      let response: Response;
+      try {
+        response = await this.limiter.run(() => this.fetchWithTimeout(url, path, init));
+      } catch (error) {
+        // A POST may have reached Taxo before failing, so only GETs are replayed
+        if (canRetry && method === 'GET') {
+          await sleep(backoffDelay(attempt, this.retry));
+          continue;
+        }
+        throw error;
+      }
+
+      if (response.ok || !canRetry || !isRetryableStatus(response.status, method)) {
+        return response;
+      }
+
+      const retryAfter =
+        response.status === 429 ? parseRetryAfter(response.headers.get('retry-after')) : undefined;
+      const delay = retryAfter ?? backoffDelay(attempt, this.retry);
+      if (delay > this.retry.maxDelayMs) {
+        return response;
+      }
+
+      await response.body?.cancel();
+      await sleep(delay);
+    }
   }
 
   private async request<T>(
@@ -32,29 +202,49 @@ export class TaxoMxApiClient {
     options: {
       method?: 'GET' | 'POST';
       body?: unknown;
-    } = {}
+      schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+      /** Caches a successful GET; `tags` allow invalidation when the data changes. */
+      cache?: { ttlMs: number; tags: string[]; refresh?: boolean };
+    }
   ): Promise<T> {
-    const { method = 'GET', body } = options;
+    const { method = 'GET', body, schema } = options;
     const url = `${baseUrl}${path}`;
 
+    const cacheKey = `${this.cacheScope} ${url}`;
+    if (this.cache && options.cache && !options.cache.refresh) {
+      const cached = this.cache.get(cacheKey);
+      if (cached !== undefined) {
+        return cached as T;
+      }
+    }
+
     const headers: Record<string, string> = {
       Accept: 'application/json',
       'Content-Type': 'application/json',
       Authorization: `Bearer ${this.token}`,
     };
 
-    const response = await fetch(url, {
-      method,
-      headers,
-      body: body ? JSON.stringify(body) : undefined,
-    });
+    // Replayed responses skip the network, the limiter and retries entirely
+    let response =
+      this.cassettes?.mode === 'replay'
+        ? this.cassettes.replay(method, path, body)
+        : await this.fetchWithRetry(url, path, method, {
+            method,
+            headers,
+            body: body ? JSON.stringify(body) : undefined,
+          });
+    if (this.cassettes?.mode === 'record') {
+      response = await this.cassettes.record(method, path, body, response);
+    }
 
     if (!response.ok) {
+      // Read once: the body stream cannot be consumed a second time
+      const errorText = await response.text();
       let errorDetails: unknown;
       try {
-        errorDetails = await response.json();
+        errorDetails = JSON.parse(errorText);
       } catch {
-        errorDetails = await response.text();
+        errorDetails = errorText;
       }
       throw new TaxoMxApiError(
         response.status,
@@ -63,63 +253,98 @@ export class TaxoMxApiClient {
       );
     }
 
-    return response.json() as Promise<T>;
+    const data: unknown = await response.json();
+    const parsed = schema.safeParse(data);
+    if (!parsed.success) {
+      throw new TaxoMxResponseValidationError(path, parsed.error.issues);
+    }
+
+    // Extraction methods drop entries by tag once a new extraction is requested
+    if (this.cache && options.cache) {
+      this.cache.set(cacheKey, parsed.data, options.cache.ttlMs, options.cache.tags);
+    }
+
+    return parsed.data;
   }
 
   // ============================================
   // Opinión de Cumplimiento (Compliance Opinion)
   // ============================================
 
-  async extractComplianceOpinionByRfc(rfc: string): Promise<unknown> {
-    return this.request(this.appBaseUrl, '/api/extractions/oc/client', {
+  async extractComplianceOpinionByRfc(rfc: string): Promise<ExtractionRequestResponse> {
+    const response = await this.request(this.appBaseUrl, '/api/extractions/oc/client', {
       method: 'POST',
       body: { rfc },
+      schema: extractionRequestSchema,
     });
+    this.cache?.invalidate(`oc:${rfc.toUpperCase()}`);
+    return response;
   }
 
-  async extractComplianceOpinionByAccountant(accountantId: string): Promise<unknown> {
-    return this.request(this.appBaseUrl, '/api/extractions/oc/accountant', {
+  async extractComplianceOpinionByAccountant(accountantId: string): Promise<ExtractionRequestResponse> {
+    const response = await this.request(this.appBaseUrl, '/api/extractions/oc/accountant', {
       method: 'POST',
       body: { accountant_id: accountantId },
+      schema: extractionRequestSchema,
     });
+    this.cache?.invalidate('oc');
+    return response;
   }
 
-  async extractComplianceOpinionAll(): Promise<unknown> {
-    return this.request(this.appBaseUrl, '/api/extractions/oc/extract-all', {
+  async extractComplianceOpinionAll(): Promise<ExtractionRequestResponse> {
+    const response = await this.request(this.appBaseUrl, '/api/extractions/oc/extract-all', {
       method: 'POST',
+      schema: extractionRequestSchema,
     });
+    this.cache?.invalidate('oc');
+    return response;
   }
 
-  async getComplianceOpinion(rfc: string): Promise<unknown> {
-    return this.request(this.appBaseUrl, `/api/extractions/oc/client/${rfc}`);
+  async getComplianceOpinion(rfc: string, options: ReadOptions = {}): Promise<ComplianceOpinion> {
+    return this.request(this.appBaseUrl, `/api/extractions/oc/client/${rfc}`, {
+      schema: complianceOpinionSchema,
+      cache: { ttlMs: CACHE_TTLS.complianceOpinion, tags: extractionTags('oc', rfc), ...options },
+    });
   }
 
   // ============================================
   // Constancia de Situación Fiscal (Tax Status Certificate)
   // ============================================
 
-  async extractTaxStatusByRfc(rfc: string): Promise<unknown> {
-    return this.request(this.appBaseUrl, '/api/extractions/csf/client', {
+  async extractTaxStatusByRfc(rfc: string): Promise<ExtractionRequestResponse> {
+    const response = await this.request(this.appBaseUrl, '/api/extractions/csf/client', {
       method: 'POST',
       body: { rfc },
+      schema: extractionRequestSchema,
     });
+    this.cache?.invalidate(`csf:${rfc.toUpperCase()}`);
+    return response;
   }
 
-  async extractTaxStatusByAccountant(accountantId: string): Promise<unknown> {
-    return this.request(this.appBaseUrl, '/api/extractions/csf/accountant', {
+  async extractTaxStatusByAccountant(accountantId: string): Promise<ExtractionRequestResponse> {
+    const response = await this.request(this.appBaseUrl, '/api/extractions/csf/accountant', {
       method: 'POST',
       body: { accountant_id: accountantId },
+      schema: extractionRequestSchema,
     });
+    this.cache?.invalidate('csf');
+    return response;
   }
 
-  async extractTaxStatusAll(): Promise<unknown> {
-    return this.request(this.appBaseUrl, '/api/extractions/csf/extract-all', {
+  async extractTaxStatusAll(): Promise<ExtractionRequestResponse> {
+    const response = await this.request(this.appBaseUrl, '/api/extractions/csf/extract-all', {
       method: 'POST',
+      schema: extractionRequestSchema,
     });
+    this.cache?.invalidate('csf');
+    return response;
   }
 
-  async getTaxStatus(rfc: string): Promise<unknown> {
-    return this.request(this.appBaseUrl, `/api/extractions/csf/client/${rfc}`);
+  async getTaxStatus(rfc: string, options: ReadOptions = {}): Promise<TaxStatus> {
+    return this.request(this.appBaseUrl, `/api/extractions/csf/client/${rfc}`, {
+      schema: taxStatusSchema,
+      cache: { ttlMs: CACHE_TTLS.taxStatus, tags: extractionTags('csf', rfc), ...options },
+    });
   }
 
   // ============================================
@@ -131,8 +356,8 @@ export class TaxoMxApiClient {
     startDate: string;
     endDate: string;
     extractionType: 'all' | 'issued' | 'received';
-  }): Promise<unknown> {
-    return this.request(this.appBaseUrl, '/api/extractions/cfdi/client', {
+  }): Promise<ExtractionRequestResponse> {
+    const response = await this.request(this.appBaseUrl, '/api/extractions/cfdi/client', {
       method: 'POST',
       body: {
         rfc: params.rfc,
@@ -140,32 +365,51 @@ export class TaxoMxApiClient {
         end_date: params.endDate,
         extraction_type: params.extractionType,
       },
+      schema: extractionRequestSchema,
     });
+    this.cache?.invalidate(`cfdi:${params.rfc.toUpperCase()}`);
+    return response;
   }
 
   async extractCfdiByAccountant(params: {
     accountantId: string;
     startDate: string;
     endDate: string;
-  }): Promise<unknown> {
-    return this.request(this.appBaseUrl, '/api/extractions/cfdi/accountant', {
+  }): Promise<ExtractionRequestResponse> {
+    const response = await this.request(this.appBaseUrl, '/api/extractions/cfdi/accountant', {
       method: 'POST',
       body: {
         accountant_id: params.accountantId,
         start_date: params.startDate,
         end_date: params.endDate,
       },
+      schema: extractionRequestSchema,
     });
+    this.cache?.invalidate('cfdi');
+    return response;
   }
 
   // ============================================
   // Tax Reports
   // ============================================
 
-  async getMonthlyTaxReport(rfc: string, year: string, month: string): Promise<unknown> {
+  async getMonthlyTaxReport(
+    rfc: string,
+    year: string,
+    month: string,
+    options: ReadOptions = {}
+  ): Promise<MonthlyTaxReport> {
     return this.request(
       this.demoBaseUrl,
-      `/api/v1/tax-reports/monthly/${rfc}/${year}/${month}`
+      `/api/v1/tax-reports/monthly/${rfc}/${year}/${month}`,
+      {
+        schema: monthlyTaxReportSchema,
+        cache: {
+          ttlMs: CACHE_TTLS.monthlyTaxReport,
+          tags: extractionTags('cfdi', rfc),
+          ...options,
+        },
+      }
     );
   }
 
@@ -173,8 +417,11 @@ export class TaxoMxApiClient {
   // Contacts
   // ============================================
 
-  async getContacts(rfc: string): Promise<unknown> {
-    return this.request(this.demoBaseUrl, `/api/v1/contacts/${rfc}`);
+  async getContacts(rfc: string, options: ReadOptions = {}): Promise<Contact[]> {
+    return this.request(this.demoBaseUrl, `/api/v1/contacts/${rfc}`, {
+      schema: contactListSchema,
+      cache: { ttlMs: CACHE_TTLS.contacts, tags: extractionTags('cfdi', rfc), ...options },
+    });
   }
 
   // ============================================
@@ -194,8 +441,9 @@ export class TaxoMxApiClient {
       issuer?: string;
       paymentType?: string;
       paymentWay?: string;
-    }
-  ): Promise<unknown> {
+    },
+    options: ReadOptions = {}
+  ): Promise<Invoice[]> {
     const params = new URLSearchParams();
     if (filters) {
       Object.entries(filters).forEach(([key, value]) => {
@@ -204,15 +452,21 @@ export class TaxoMxApiClient {
     }
     const query = params.toString();
     const path = `/api/v1/invoices/${rfc}${query ? `?${query}` : ''}`;
-    return this.request(this.demoBaseUrl, path);
+    return this.request(this.demoBaseUrl, path, {
+      schema: invoiceListSchema,
+      cache: { ttlMs: CACHE_TTLS.invoices, tags: extractionTags('cfdi', rfc), ...options },
+    });
   }
 
   // ============================================
   // Categories
   // ============================================
 
-  async getCategories(): Promise<unknown> {
-    return this.request(this.demoBaseUrl, '/api/categorization/categories');
+  async getCategories(options: ReadOptions = {}): Promise<Category[]> {
+    return this.request(this.demoBaseUrl, '/api/categorization/categories', {
+      schema: categoryListSchema,
+      cache: { ttlMs: CACHE_TTLS.categories, tags: ['categories'], ...options },
+    });
   }
 
   // ============================================
@@ -223,13 +477,14 @@ export class TaxoMxApiClient {
     accountantId: string,
     rfc: string,
     ciec: string
-  ): Promise<unknown> {
+  ): Promise<CreateTaxpayerResponse> {
     return this.request(
       this.appBaseUrl,
       `/api/v1/accountant/${accountantId}/clients`,
       {
         method: 'POST',
         body: { rfc, ciec },
+        schema: createTaxpayerResponseSchema,
       }
     );
   }
@@ -0,0 +1,203 @@
+import { z } from 'zod';
+
+// ============================================
+// Shared Field Schemas
+// ============================================
+
+// Taxo serialises money either as JSON numbers or numeric strings
+const amount = z.union([
+  z.number(),
+  z
+    .string()
+    .regex(/^-?\d+(\.\d+)?$/)
+    .transform(Number),
+]);
+
+const dateString = z.string();
+
+/**
+ * Accepts either the bare payload or the `{ data: ... }` envelope some Taxo
+ * endpoints use, and always yields the bare payload.
+ */
+function enveloped<S extends z.ZodTypeAny>(schema: S) {
+  return z.union([
+    z.object({ data: schema }).passthrough().transform((response) => response.data as z.infer<S>),
+    schema,
+  ]);
+}
+
+// ============================================
+// Extraction Requests
+// ============================================
+
+export const extractionRequestSchema = z
+  .object({
+    success: z.boolean().optional(),
+    message: z.string().optional(),
+    task_id: z.union([z.string(), z.number()]).optional(),
+  })
+  .passthrough();
+
+export type ExtractionRequestResponse = z.infer<typeof extractionRequestSchema>;
+
+// ============================================
+// Opinión de Cumplimiento (Compliance Opinion)
+// ============================================
+
+export const complianceOpinionSchema = enveloped(
+  z
+    .object({
+      rfc: z.string().optional(),
+      status: z.string().describe('Opinion sense, e.g. positive or negative'),
+      folio: z.string().optional(),
+      issued_at: dateString.optional(),
+      valid_until: dateString.nullable().optional(),
+      extracted_at: dateString.optional(),
+      pdf_url: z.string().nullable().optional(),
+    })
+    .passthrough()
+);
+
+export type ComplianceOpinion = z.infer<typeof complianceOpinionSchema>;
+
+// ============================================
+// Constancia de Situación Fiscal (Tax Status Certificate)
+// ============================================
+
+export const taxStatusSchema = enveloped(
+  z
+    .object({
+      rfc: z.string(),
+      name: z.string().optional(),
+      curp: z.string().nullable().optional(),
+      status: z.string().optional(),
+      postal_code: z.string().optional(),
+      tax_regimes: z
+        .array(
+          z
+            .object({
+              code: z.string().optional(),
+              description: z.string().optional(),
+              start_date: dateString.optional(),
+            })
+            .passthrough()
+        )
+        .optional(),
+      economic_activities: z.array(z.object({}).passthrough()).optional(),
+      obligations: z.array(z.object({}).passthrough()).optional(),
+      extracted_at: dateString.optional(),
+    })
+    .passthrough()
+);
+
+export type TaxStatus = z.infer<typeof taxStatusSchema>;
+
+// ============================================
+// Tax Reports
+// ============================================
+
+export const monthlyTaxReportSchema = enveloped(
+  z
+    .object({
+      rfc: z.string().optional(),
+      year: z.union([z.string(), z.number()]).optional(),
+      month: z.union([z.string(), z.number()]).optional(),
+      isr: z.object({}).passthrough().optional(),
+      iva: z.object({}).passthrough().optional(),
+    })
+    .passthrough()
+);
+
+export type MonthlyTaxReport = z.infer<typeof monthlyTaxReportSchema>;
+
+// ============================================
+// Contacts
+// ============================================
+
+export const contactSchema = z
+  .object({
+    rfc: z.string(),
+    name: z.string().optional(),
+    type: z.string().optional(),
+  })
+  .passthrough();
+
+export const contactListSchema = enveloped(z.array(contactSchema));
+
+export type Contact = z.infer<typeof contactSchema>;
+
+// ============================================
+// Invoices / Documents
+// ============================================
+
+export const invoiceSchema = z
+  .object({
+    uuid: z.string(),
+    date: dateString.optional(),
+    type: z.string().optional(),
+    status: z.string().optional(),
+    issuer_rfc: z.string().optional(),
+    issuer_name: z.string().optional(),
+    receiver_rfc: z.string().optional(),
+    receiver_name: z.string().optional(),
+    subtotal: amount.optional(),
+    total: amount,
+    currency: z.string().optional(),
+    payment_type: z.string().optional(),
+    payment_way: z.string().optional(),
+    category: z.string().nullable().optional(),
+    /** IVA transferred on the invoice; absent from some Taxo responses. */
+    iva: amount.optional(),
+    iva_withheld: amount.optional(),
+    isr_withheld: amount.optional(),
+    exchange_rate: amount.optional(),
+    /** Invoices a payment complement settles, or the invoice a credit note applies to. */
+    related_documents: z
+      .array(
+        z
+          .object({
+            uuid: z.string(),
+            installment: z.number().optional(),
+            paid_amount: amount.optional(),
+            iva: amount.optional(),
+            iva_withheld: amount.optional(),
+          })
+          .passthrough()
+      )
+      .optional(),
+  })
+  .passthrough();
+
+export const invoiceListSchema = enveloped(z.array(invoiceSchema));
+
+export type Invoice = z.infer<typeof invoiceSchema>;
+
+// ============================================
+// Categories
+// ============================================
+
+export const categorySchema = z
+  .object({
+    id: z.union([z.string(), z.number()]),
+    name: z.string(),
+  })
+  .passthrough();
+
+export const categoryListSchema = enveloped(z.array(categorySchema));
+
+export type Category = z.infer<typeof categorySchema>;
+
+// ============================================
+// Taxpayer Management
+// ============================================
+
+export const createTaxpayerResponseSchema = enveloped(
+  z
+    .object({
+      id: z.union([z.string(), z.number()]).optional(),
+      rfc: z.string().optional(),
+    })
+    .passthrough()
+);
+
+export type CreateTaxpayerResponse = z.infer<typeof createTaxpayerResponseSchema>;
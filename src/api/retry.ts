@@ -0,0 +1,47 @@
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Gateway and throttling errors: the request was not processed
+const RETRYABLE_STATUS_CODES = new Set([429, 502, 503, 504]);
+
+/**
+ * Whether a failed response may be retried. GETs are idempotent, so any
+ * transient status is safe; other methods only retry when Taxo explicitly
+ * rejected the request before doing any work (429).
+ */
+export function isRetryableStatus(status: number, method: string): boolean {
+  if (method === 'GET') {
+    return RETRYABLE_STATUS_CODES.has(status);
+  }
+  return status === 429;
+}
+
+/** Exponential backoff with full jitter. */
+export function backoffDelay(attempt: number, options: RetryOptions): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+/** Parses a `Retry-After` header (delta seconds or HTTP date) into milliseconds. */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
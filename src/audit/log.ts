@@ -0,0 +1,120 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+import { logger } from '../logger.js';
+
+export type AuditOutcome = 'success' | 'error';
+
+export interface AuditRecord {
+  timestamp: string;
+  /** SHA-256 hex digest of the Taxo token that made the call. */
+  tokenId: string;
+  sessionId?: string;
+  tool: string;
+  rfc?: string;
+  /** Tool arguments with secrets replaced by `[REDACTED]`. */
+  arguments: unknown;
+  outcome: AuditOutcome;
+  statusCode: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface AuditQuery {
+  tokenId?: string;
+  tool?: string;
+  rfc?: string;
+  outcome?: AuditOutcome;
+  /** ISO timestamps bounding the records returned. */
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+const SECRET_KEY = /ciec|password|secret|token/i;
+
+export function redactArguments(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactArguments);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [
+        key,
+        SECRET_KEY.test(key) ? '[REDACTED]' : redactArguments(field),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Append-only record of tool calls, written to a JSONL file or to
+ * `stdout`/`stderr` for log collectors. Recent records stay in memory for the
+ * `/audit` route; with a file target, earlier records are reloaded on start.
+ */
+export class AuditLog {
+  private records: AuditRecord[] = [];
+
+  constructor(
+    private target: string,
+    private maxInMemory = 10_000
+  ) {
+    this.load();
+  }
+
+  record(record: AuditRecord): void {
+    this.records.push(record);
+    if (this.records.length > this.maxInMemory) {
+      this.records.splice(0, this.records.length - this.maxInMemory);
+    }
+
+    const line = `${JSON.stringify(record)}\n`;
+    try {
+      if (this.target === 'stdout') {
+        process.stdout.write(line);
+      } else if (this.target === 'stderr') {
+        process.stderr.write(line);
+      } else {
+        mkdirSync(dirname(this.target), { recursive: true });
+        appendFileSync(this.target, line);
+      }
+    } catch (error) {
+      // A failing audit sink must not turn a successful tool call into an error
+      logger.error('Failed to write audit record:', error);
+    }
+  }
+
+  /** Returns matching records, newest first. */
+  query(query: AuditQuery = {}): AuditRecord[] {
+    const rfc = query.rfc?.toUpperCase();
+    const matches = this.records
+      .filter((record) => !query.tokenId || record.tokenId === query.tokenId)
+      .filter((record) => !query.tool || record.tool === query.tool)
+      .filter((record) => !rfc || record.rfc === rfc)
+      .filter((record) => !query.outcome || record.outcome === query.outcome)
+      .filter((record) => !query.since || record.timestamp >= query.since)
+      .filter((record) => !query.until || record.timestamp <= query.until)
+      .reverse();
+
+    return query.limit ? matches.slice(0, query.limit) : matches;
+  }
+
+  private load(): void {
+    if (this.target === 'stdout' || this.target === 'stderr' || !existsSync(this.target)) {
+      return;
+    }
+
+    this.records = readFileSync(this.target, 'utf8')
+      .split('\n')
+      .filter((line) => line.trim())
+      .slice(-this.maxInMemory)
+      .flatMap((line) => {
+        try {
+          return [JSON.parse(line) as AuditRecord];
+        } catch {
+          return [];
+        }
+      });
+  }
+}
@@ -0,0 +1,43 @@
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+
+import { hasAdminToken } from '../http/adminToken.js';
+import { AuditLog } from './log.js';
+
+export interface AuditRouterOptions {
+  log: AuditLog;
+  /** Bearer token required to read the audit log. */
+  adminToken: string;
+}
+
+const auditQuerySchema = z.object({
+  tokenId: z.string().optional(),
+  tool: z.string().optional(),
+  rfc: z.string().optional(),
+  outcome: z.enum(['success', 'error']).optional(),
+  since: z.string().datetime().optional(),
+  until: z.string().datetime().optional(),
+  limit: z.coerce.number().int().positive().max(1000).default(100),
+});
+
+export function createAuditRouter(options: AuditRouterOptions): Router {
+  const router = Router();
+
+  router.get('/audit', (req: Request, res: Response) => {
+    if (!hasAdminToken(req, options.adminToken)) {
+      res.status(401).json({ error: 'Admin token required' });
+      return;
+    }
+
+    const parsed = auditQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid audit query', details: parsed.error.issues });
+      return;
+    }
+
+    const records = options.log.query(parsed.data);
+    res.json({ count: records.length, records });
+  });
+
+  return router;
+}
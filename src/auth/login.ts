@@ -0,0 +1,57 @@
+import express, { Request, Response, Router } from 'express';
+
+import { escapeHtml, renderPage } from '../http/html.js';
+import { logger } from '../logger.js';
+import type { TaxoOAuthProvider } from './provider.js';
+
+export function renderLoginPage(options: {
+  requestId: string;
+  clientName?: string;
+  error?: string;
+}): string {
+  const clientName = escapeHtml(options.clientName ?? 'An MCP client');
+
+  return renderPage(
+    'Connect to Taxo MX',
+    `<p>${clientName} is requesting access to your Taxo account. Enter your Taxo API token to allow it.</p>
+  ${options.error ? `<p class="error">${escapeHtml(options.error)}</p>` : ''}
+  <form method="post" action="/oauth/login">
+    <input type="hidden" name="request_id" value="${escapeHtml(options.requestId)}">
+    <label for="taxo_token">Taxo API token</label>
+    <input id="taxo_token" name="taxo_token" type="password" autocomplete="off" required>
+    <button type="submit">Authorize</button>
+  </form>`
+  );
+}
+
+/** Handles the login form rendered during the OAuth authorize step. */
+export function createLoginRouter(provider: TaxoOAuthProvider): Router {
+  const router = Router();
+
+  router.post(
+    '/oauth/login',
+    express.urlencoded({ extended: false }),
+    async (req: Request, res: Response) => {
+      const requestId = String(req.body?.request_id ?? '');
+      const taxoToken = String(req.body?.taxo_token ?? '').trim();
+
+      let outcome: { redirectUrl?: string; error?: string };
+      try {
+        outcome = await provider.completeAuthorization(requestId, taxoToken);
+      } catch (error) {
+        logger.error('OAuth login failed:', error);
+        outcome = { error: 'Could not verify the token with Taxo. Try again in a moment.' };
+      }
+
+      const { redirectUrl, error } = outcome;
+      if (redirectUrl) {
+        res.redirect(302, redirectUrl);
+        return;
+      }
+
+      res.status(400).type('html').send(renderLoginPage({ requestId, error }));
+    }
+  );
+
+  return router;
+}
@@ -0,0 +1,277 @@
+import { randomBytes, randomUUID } from 'node:crypto';
+import { Response } from 'express';
+import { OAuthRegisteredClientsStore } from '@modelcontextprotocol/sdk/server/auth/clients.js';
+import { InvalidGrantError, InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import {
+  AuthorizationParams,
+  OAuthServerProvider,
+} from '@modelcontextprotocol/sdk/server/auth/provider.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import {
+  OAuthClientInformationFull,
+  OAuthTokenRevocationRequest,
+  OAuthTokens,
+} from '@modelcontextprotocol/sdk/shared/auth.js';
+
+import { renderLoginPage } from './login.js';
+
+export interface TaxoOAuthProviderOptions {
+  /** Resolves true when the token is accepted by Taxo. */
+  verifyTaxoToken: (taxoToken: string) => Promise<boolean>;
+  accessTokenTtlSeconds?: number;
+  refreshTokenTtlSeconds?: number;
+}
+
+interface PendingAuthorization {
+  client: OAuthClientInformationFull;
+  params: AuthorizationParams;
+  expiresAt: number;
+  /** Tokens submitted so far on this sign-in form. */
+  attempts: number;
+}
+
+interface AuthorizationCode {
+  clientId: string;
+  params: AuthorizationParams;
+  taxoToken: string;
+  expiresAt: number;
+}
+
+interface IssuedToken {
+  clientId: string;
+  taxoToken: string;
+  scopes: string[];
+  resource?: URL;
+  expiresAt: number;
+}
+
+// Login forms and authorization codes are short-lived by design
+const PENDING_TTL_MS = 10 * 60 * 1000;
+const CODE_TTL_MS = 60 * 1000;
+// A sign-in form accepts a few typos, not a token search
+const MAX_LOGIN_ATTEMPTS = 5;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+const randomToken = () => randomBytes(32).toString('base64url');
+
+class InMemoryClientsStore implements OAuthRegisteredClientsStore {
+  private clients = new Map<string, OAuthClientInformationFull>();
+
+  getClient(clientId: string): OAuthClientInformationFull | undefined {
+    return this.clients.get(clientId);
+  }
+
+  registerClient(
+    client: Omit<OAuthClientInformationFull, 'client_id' | 'client_id_issued_at'>
+  ): OAuthClientInformationFull {
+    const registered: OAuthClientInformationFull = {
+      ...client,
+      client_id: randomUUID(),
+      client_id_issued_at: Math.floor(Date.now() / 1000),
+    };
+    this.clients.set(registered.client_id, registered);
+    return registered;
+  }
+}
+
+/**
+ * OAuth 2.1 authorization server for the MCP endpoint. Users sign in once by
+ * entering their Taxo API token on a local form; clients only ever see opaque
+ * access tokens, which are mapped back to the Taxo token server-side.
+ */
+export class TaxoOAuthProvider implements OAuthServerProvider {
+  readonly clientsStore = new InMemoryClientsStore();
+
+  private pending = new Map<string, PendingAuthorization>();
+  private codes = new Map<string, AuthorizationCode>();
+  private accessTokens = new Map<string, IssuedToken>();
+  private refreshTokens = new Map<string, IssuedToken>();
+  private accessTokenTtlSeconds: number;
+  private refreshTokenTtlSeconds: number;
+  private sweeper: NodeJS.Timeout;
+
+  constructor(private options: TaxoOAuthProviderOptions) {
+    this.accessTokenTtlSeconds = options.accessTokenTtlSeconds ?? 3600;
+    this.refreshTokenTtlSeconds = options.refreshTokenTtlSeconds ?? 30 * 24 * 3600;
+    this.sweeper = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweeper.unref();
+  }
+
+  close(): void {
+    clearInterval(this.sweeper);
+  }
+
+  async authorize(
+    client: OAuthClientInformationFull,
+    params: AuthorizationParams,
+    res: Response
+  ): Promise<void> {
+    const requestId = randomToken();
+    this.pending.set(requestId, {
+      client,
+      params,
+      expiresAt: Date.now() + PENDING_TTL_MS,
+      attempts: 0,
+    });
+    res.type('html').send(renderLoginPage({ requestId, clientName: client.client_name }));
+  }
+
+  /**
+   * Finishes an authorization started by `authorize` once the user submitted
+   * their Taxo token. Returns the redirect URL carrying the code or error.
+   * The request ends after a few rejected tokens.
+   */
+  async completeAuthorization(
+    requestId: string,
+    taxoToken: string
+  ): Promise<{ redirectUrl?: string; error?: string }> {
+    const pending = this.pending.get(requestId);
+    if (!pending || pending.expiresAt < Date.now()) {
+      this.pending.delete(requestId);
+      return { error: 'This sign-in request has expired. Start again from your MCP client.' };
+    }
+
+    // Counted before verifying, so concurrent submissions cannot exceed the limit
+    pending.attempts++;
+    if (pending.attempts >= MAX_LOGIN_ATTEMPTS) {
+      this.pending.delete(requestId);
+    }
+
+    if (!(await this.options.verifyTaxoToken(taxoToken))) {
+      return this.pending.has(requestId)
+        ? { error: 'Taxo rejected this token. Check it and try again.' }
+        : { error: 'Too many rejected tokens. Start again from your MCP client.' };
+    }
+    this.pending.delete(requestId);
+
+    const code = randomToken();
+    this.codes.set(code, {
+      clientId: pending.client.client_id,
+      params: pending.params,
+      taxoToken,
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+
+    const redirectUrl = new URL(pending.params.redirectUri);
+    redirectUrl.searchParams.set('code', code);
+    if (pending.params.state) {
+      redirectUrl.searchParams.set('state', pending.params.state);
+    }
+    return { redirectUrl: redirectUrl.toString() };
+  }
+
+  async challengeForAuthorizationCode(
+    client: OAuthClientInformationFull,
+    authorizationCode: string
+  ): Promise<string> {
+    return this.getCode(client, authorizationCode).params.codeChallenge;
+  }
+
+  async exchangeAuthorizationCode(
+    client: OAuthClientInformationFull,
+    authorizationCode: string,
+    _codeVerifier?: string,
+    redirectUri?: string
+  ): Promise<OAuthTokens> {
+    const code = this.getCode(client, authorizationCode);
+    if (redirectUri && redirectUri !== code.params.redirectUri) {
+      throw new InvalidGrantError('redirect_uri does not match the authorization request');
+    }
+
+    // Codes are single use
+    this.codes.delete(authorizationCode);
+    return this.issueTokens({
+      clientId: client.client_id,
+      taxoToken: code.taxoToken,
+      scopes: code.params.scopes ?? [],
+      resource: code.params.resource,
+    });
+  }
+
+  async exchangeRefreshToken(
+    client: OAuthClientInformationFull,
+    refreshToken: string,
+    scopes?: string[]
+  ): Promise<OAuthTokens> {
+    const issued = this.refreshTokens.get(refreshToken);
+    if (!issued || issued.clientId !== client.client_id || issued.expiresAt < Date.now()) {
+      throw new InvalidGrantError('Invalid or expired refresh token');
+    }
+
+    // Rotate refresh tokens on every use
+    this.refreshTokens.delete(refreshToken);
+    return this.issueTokens({ ...issued, scopes: scopes ?? issued.scopes });
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const issued = this.accessTokens.get(token);
+    if (!issued || issued.expiresAt < Date.now()) {
+      this.accessTokens.delete(token);
+      throw new InvalidTokenError('Invalid or expired access token');
+    }
+
+    return {
+      token,
+      clientId: issued.clientId,
+      scopes: issued.scopes,
+      expiresAt: Math.floor(issued.expiresAt / 1000),
+      resource: issued.resource,
+      extra: { taxoToken: issued.taxoToken },
+    };
+  }
+
+  async revokeToken(
+    client: OAuthClientInformationFull,
+    request: OAuthTokenRevocationRequest
+  ): Promise<void> {
+    for (const store of [this.accessTokens, this.refreshTokens]) {
+      const issued = store.get(request.token);
+      if (issued?.clientId === client.client_id) {
+        store.delete(request.token);
+      }
+    }
+  }
+
+  private getCode(client: OAuthClientInformationFull, authorizationCode: string) {
+    const code = this.codes.get(authorizationCode);
+    if (!code || code.clientId !== client.client_id || code.expiresAt < Date.now()) {
+      throw new InvalidGrantError('Invalid or expired authorization code');
+    }
+    return code;
+  }
+
+  private issueTokens(grant: Omit<IssuedToken, 'expiresAt'>): OAuthTokens {
+    const accessToken = randomToken();
+    const refreshToken = randomToken();
+    const now = Date.now();
+
+    this.accessTokens.set(accessToken, {
+      ...grant,
+      expiresAt: now + this.accessTokenTtlSeconds * 1000,
+    });
+    this.refreshTokens.set(refreshToken, {
+      ...grant,
+      expiresAt: now + this.refreshTokenTtlSeconds * 1000,
+    });
+
+    return {
+      access_token: accessToken,
+      token_type: 'bearer',
+      expires_in: this.accessTokenTtlSeconds,
+      refresh_token: refreshToken,
+      scope: grant.scopes.join(' ') || undefined,
+    };
+  }
+
+  /** Drops expired sign-in requests, codes and tokens nobody looked up again. */
+  private sweep(): void {
+    const now = Date.now();
+    for (const store of [this.pending, this.codes, this.accessTokens, this.refreshTokens]) {
+      for (const [key, entry] of store) {
+        if (entry.expiresAt < now) {
+          store.delete(key);
+        }
+      }
+    }
+  }
+}
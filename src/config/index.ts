@@ -0,0 +1,184 @@
+import { existsSync, readFileSync } from 'node:fs';
+
+import { CassetteStore } from '../api/cassettes.js';
+import { TaxoMxClientOptions } from '../api/client.js';
+import { parseToolList, ToolPolicy } from '../tools/policy.js';
+import { CONFIG_OPTIONS, ConfigOption } from './options.js';
+import { Config, configSchema } from './schema.js';
+
+export * from './options.js';
+export * from './schema.js';
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+export interface LoadedConfig {
+  config: Config;
+  /** Set by --print-config: show the effective config and exit. */
+  printConfig: boolean;
+}
+
+const MASK = '********';
+
+function convert(option: ConfigOption, value: string, source: string): unknown {
+  switch (option.kind) {
+    case 'int':
+      if (!/^-?\d+$/.test(value.trim())) {
+        throw new ConfigError(`${source} must be an integer, got "${value}"`);
+      }
+      return parseInt(value, 10);
+    case 'boolean':
+      if (value !== 'true' && value !== 'false') {
+        throw new ConfigError(`${source} must be "true" or "false", got "${value}"`);
+      }
+      return value === 'true';
+    case 'list':
+      return parseToolList(value);
+    default:
+      return value;
+  }
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    if (typeof node[key] !== 'object' || node[key] === null) {
+      node[key] = {};
+    }
+    node = node[key] as Record<string, unknown>;
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+function getPath(source: Record<string, unknown>, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>((node, key) => (node as Record<string, unknown> | undefined)?.[key], source);
+}
+
+function parseArgs(argv: string[]): {
+  values: Map<ConfigOption, string>;
+  configFile?: string;
+  printConfig: boolean;
+} {
+  const values = new Map<ConfigOption, string>();
+  let configFile: string | undefined;
+  let printConfig = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    if (flag === '--print-config') {
+      printConfig = true;
+      continue;
+    }
+
+    const option = CONFIG_OPTIONS.find((candidate) => candidate.flag === flag);
+    if (flag !== '--config' && !option) {
+      throw new ConfigError(`Unknown option: ${flag}`);
+    }
+    if (option?.kind === 'boolean') {
+      values.set(option, 'true');
+      continue;
+    }
+
+    const value = argv[++i];
+    if (value === undefined) {
+      throw new ConfigError(`Missing value for ${flag}`);
+    }
+    if (option) {
+      values.set(option, value);
+    } else {
+      configFile = value;
+    }
+  }
+
+  return { values, configFile, printConfig };
+}
+
+function readConfigFile(path: string): Record<string, unknown> {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new ConfigError(
+      `Cannot read config file ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Builds the effective configuration. Later sources win: defaults, then the
+ * JSON config file (--config or TAXO_MX_CONFIG), then environment variables,
+ * then command line flags.
+ */
+export function loadConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): LoadedConfig {
+  const args = parseArgs(argv);
+  const configFile = args.configFile ?? env.TAXO_MX_CONFIG;
+  const raw = configFile ? readConfigFile(configFile) : {};
+
+  for (const option of CONFIG_OPTIONS) {
+    const value = option.env ? env[option.env] : undefined;
+    if (value !== undefined && value !== '') {
+      setPath(raw, option.path, convert(option, value, option.env as string));
+    }
+  }
+  for (const [option, value] of args.values) {
+    setPath(raw, option.path, convert(option, value, option.flag as string));
+  }
+
+  const parsed = configSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ConfigError(
+      `Invalid configuration: ${parsed.error.issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ')}`
+    );
+  }
+
+  return { config: parsed.data, printConfig: args.printConfig };
+}
+
+/** Copy of the config safe to print: tokens and secrets are masked. */
+export function maskConfig(config: Config): Config {
+  const masked = structuredClone(config) as unknown as Record<string, unknown>;
+  for (const option of CONFIG_OPTIONS) {
+    if (option.secret && getPath(masked, option.path) !== undefined) {
+      setPath(masked, option.path, MASK);
+    }
+  }
+  return masked as unknown as Config;
+}
+
+// HTTP client tuning shared by both entry points
+export function clientOptionsFromConfig(config: Config): Omit<TaxoMxClientOptions, 'token'> {
+  const { cassetteMode, cassetteDir } = config.client;
+  if (cassetteMode === 'replay' && !existsSync(cassetteDir)) {
+    throw new ConfigError(`Cassette directory ${cassetteDir} does not exist`);
+  }
+
+  return {
+    appBaseUrl: config.appBaseUrl,
+    demoBaseUrl: config.demoBaseUrl,
+    timeoutMs: config.client.timeoutMs,
+    maxRetries: config.client.maxRetries,
+    maxConcurrency: config.client.maxConcurrency,
+    cacheEnabled: config.client.cache,
+    cassettes: cassetteMode ? new CassetteStore(cassetteDir, cassetteMode) : undefined,
+  };
+}
+
+// Server-wide tool restrictions; the HTTP server layers per-token policies on top
+export function toolPolicyFromConfig(config: Config): ToolPolicy {
+  return {
+    readOnly: config.tools.readOnly,
+    allow: config.tools.allow,
+    deny: config.tools.deny,
+  };
+}
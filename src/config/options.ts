@@ -0,0 +1,65 @@
+/** How a string from the environment or the command line is converted. */
+export type OptionKind = 'string' | 'int' | 'boolean' | 'list';
+
+export interface ConfigOption {
+  /** Dotted path in the config file, e.g. `client.timeoutMs`. */
+  path: string;
+  env?: string;
+  /** Command line flag; boolean flags take no value. */
+  flag?: string;
+  kind: OptionKind;
+  /** Masked by --print-config. */
+  secret?: boolean;
+}
+
+// Every setting that can come from the environment or the command line
+export const CONFIG_OPTIONS: ConfigOption[] = [
+  { path: 'environment', env: 'TAXO_MX_ENV', flag: '--env', kind: 'string' },
+  { path: 'appBaseUrl', env: 'TAXO_MX_APP_BASE_URL', flag: '--app-base-url', kind: 'string' },
+  { path: 'demoBaseUrl', env: 'TAXO_MX_DEMO_BASE_URL', flag: '--demo-base-url', kind: 'string' },
+  { path: 'token', env: 'TAXO_MX_TOKEN', flag: '--token', kind: 'string', secret: true },
+
+  { path: 'client.timeoutMs', env: 'TAXO_MX_TIMEOUT_MS', flag: '--timeout-ms', kind: 'int' },
+  { path: 'client.maxRetries', env: 'TAXO_MX_MAX_RETRIES', flag: '--max-retries', kind: 'int' },
+  { path: 'client.maxConcurrency', env: 'TAXO_MX_MAX_CONCURRENCY', kind: 'int' },
+  { path: 'client.cache', env: 'TAXO_MX_CACHE', kind: 'boolean' },
+  {
+    path: 'client.cassetteMode',
+    env: 'TAXO_MX_CASSETTE_MODE',
+    flag: '--cassette-mode',
+    kind: 'string',
+  },
+  { path: 'client.cassetteDir', env: 'TAXO_MX_CASSETTE_DIR', flag: '--cassette-dir', kind: 'string' },
+
+  { path: 'logging.level', env: 'TAXO_MX_LOG_LEVEL', flag: '--log-level', kind: 'string' },
+  { path: 'logging.format', env: 'TAXO_MX_LOG_FORMAT', flag: '--log-format', kind: 'string' },
+
+  { path: 'tools.readOnly', env: 'TAXO_MX_READ_ONLY', flag: '--read-only', kind: 'boolean' },
+  { path: 'tools.allow', env: 'TAXO_MX_ALLOWED_TOOLS', flag: '--allow-tools', kind: 'list' },
+  { path: 'tools.deny', env: 'TAXO_MX_DENIED_TOOLS', flag: '--deny-tools', kind: 'list' },
+  { path: 'tools.policyFile', env: 'TAXO_MX_TOOL_POLICY_FILE', kind: 'string' },
+
+  { path: 'audit.log', env: 'TAXO_MX_AUDIT_LOG', flag: '--audit-log', kind: 'string' },
+  { path: 'audit.adminToken', env: 'TAXO_MX_AUDIT_ADMIN_TOKEN', kind: 'string', secret: true },
+
+  { path: 'webhooks.secret', env: 'TAXO_MX_WEBHOOK_SECRET', kind: 'string', secret: true },
+  { path: 'webhooks.toleranceSeconds', env: 'TAXO_MX_WEBHOOK_TOLERANCE', kind: 'int' },
+  { path: 'webhooks.store', env: 'TAXO_MX_WEBHOOK_STORE', kind: 'string' },
+
+  { path: 'http.port', env: 'PORT', flag: '--port', kind: 'int' },
+  { path: 'http.baseUrl', env: 'BASE_URL', flag: '--base-url', kind: 'string' },
+  { path: 'http.sessionMode', env: 'TAXO_MX_SESSION_MODE', kind: 'string' },
+  { path: 'http.sessionTtlSeconds', env: 'TAXO_MX_SESSION_TTL', kind: 'int' },
+  { path: 'http.pathTokens', env: 'TAXO_MX_PATH_TOKENS', kind: 'boolean' },
+  { path: 'http.oauth', env: 'TAXO_MX_OAUTH', kind: 'boolean' },
+  { path: 'http.oauthTokenTtlSeconds', env: 'TAXO_MX_OAUTH_TOKEN_TTL', kind: 'int' },
+  { path: 'http.metrics', env: 'TAXO_MX_METRICS', kind: 'boolean' },
+  { path: 'http.metricsToken', env: 'TAXO_MX_METRICS_TOKEN', kind: 'string', secret: true },
+  { path: 'http.readyCacheTtlSeconds', env: 'TAXO_MX_READY_CACHE_TTL', kind: 'int' },
+  { path: 'http.readyMaxQueued', env: 'TAXO_MX_READY_MAX_QUEUED', kind: 'int' },
+
+  { path: 'stdio.formPort', env: 'TAXO_MX_FORM_PORT', kind: 'int' },
+  { path: 'stdio.accountsFile', env: 'TAXO_MX_ACCOUNTS_FILE', flag: '--accounts', kind: 'string' },
+  { path: 'stdio.account', env: 'TAXO_MX_ACCOUNT', flag: '--account', kind: 'string' },
+  { path: 'stdio.accountantId', env: 'TAXO_MX_ACCOUNTANT_ID', kind: 'string' },
+];
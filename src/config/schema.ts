@@ -0,0 +1,135 @@
+import { z } from 'zod';
+
+import { DEFAULT_APP_BASE_URL, DEFAULT_DEMO_BASE_URL } from '../api/client.js';
+
+const positiveInt = z.number().int().positive();
+
+const environmentSchema = z
+  .object({
+    appBaseUrl: z.string().url(),
+    demoBaseUrl: z.string().url(),
+  })
+  .strict();
+
+export type TaxoEnvironment = z.infer<typeof environmentSchema>;
+
+// Environments available without a config file; others are defined under `environments`
+export const BUILT_IN_ENVIRONMENTS: Record<string, TaxoEnvironment> = {
+  production: { appBaseUrl: DEFAULT_APP_BASE_URL, demoBaseUrl: DEFAULT_DEMO_BASE_URL },
+  // The mock Taxo API (`npm run mock`) on its default port
+  mock: { appBaseUrl: 'http://127.0.0.1:4010', demoBaseUrl: 'http://127.0.0.1:4010' },
+};
+
+export const LOG_LEVELS = ['error', 'warn', 'info', 'debug'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/**
+ * Settings shared by the HTTP and stdio servers. Sections only one entry point
+ * uses are ignored by the other.
+ */
+export const configSchema = z
+  .object({
+    /** Named set of Taxo base URLs; `appBaseUrl`/`demoBaseUrl` override single URLs. */
+    environment: z.string().default('production'),
+    environments: z.record(environmentSchema).default({}),
+    appBaseUrl: z.string().url().optional(),
+    demoBaseUrl: z.string().url().optional(),
+    token: z.string().min(1).optional(),
+    client: z
+      .object({
+        timeoutMs: positiveInt.default(30_000),
+        maxRetries: z.number().int().min(0).default(2),
+        maxConcurrency: positiveInt.default(4),
+        cache: z.boolean().default(true),
+        /** Record Taxo responses to, or replay them from, `cassetteDir`. */
+        cassetteMode: z.enum(['record', 'replay']).optional(),
+        cassetteDir: z.string().default('cassettes'),
+      })
+      .strict()
+      .default({}),
+    logging: z
+      .object({
+        level: z.enum(LOG_LEVELS).default('info'),
+        format: z.enum(['text', 'json']).default('text'),
+      })
+      .strict()
+      .default({}),
+    tools: z
+      .object({
+        readOnly: z.boolean().default(false),
+        allow: z.array(z.string()).optional(),
+        deny: z.array(z.string()).optional(),
+        /** HTTP only: JSON file with per-token tool policies. */
+        policyFile: z.string().optional(),
+      })
+      .strict()
+      .default({}),
+    audit: z
+      .object({
+        /** JSONL file path, `stdout` or `stderr`. */
+        log: z.string().optional(),
+        adminToken: z.string().min(1).optional(),
+      })
+      .strict()
+      .default({}),
+    webhooks: z
+      .object({
+        secret: z.string().min(1).optional(),
+        toleranceSeconds: positiveInt.default(300),
+        store: z.string().optional(),
+      })
+      .strict()
+      .default({}),
+    http: z
+      .object({
+        port: positiveInt.default(3000),
+        baseUrl: z.string().url().optional(),
+        sessionMode: z.enum(['stateless', 'stateful']).default('stateless'),
+        sessionTtlSeconds: positiveInt.default(1800),
+        pathTokens: z.boolean().default(true),
+        oauth: z.boolean().default(false),
+        oauthTokenTtlSeconds: positiveInt.default(3600),
+        metrics: z.boolean().default(true),
+        metricsToken: z.string().min(1).optional(),
+        readyCacheTtlSeconds: positiveInt.default(15),
+        readyMaxQueued: z.number().int().min(0).default(50),
+      })
+      .strict()
+      .default({}),
+    stdio: z
+      .object({
+        formPort: z.number().int().min(0).optional(),
+        accountsFile: z.string().optional(),
+        account: z.string().optional(),
+        accountantId: z.string().optional(),
+      })
+      .strict()
+      .default({}),
+  })
+  .strict()
+  .transform((config, ctx) => {
+    const environment =
+      config.environments[config.environment] ?? BUILT_IN_ENVIRONMENTS[config.environment];
+    if (!environment) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['environment'],
+        message: `Unknown environment "${config.environment}"; define it under environments`,
+      });
+      return z.NEVER;
+    }
+
+    // Resolve derived values so every consumer, and --print-config, sees the effective ones
+    return {
+      ...config,
+      appBaseUrl: config.appBaseUrl ?? environment.appBaseUrl,
+      demoBaseUrl: config.demoBaseUrl ?? environment.demoBaseUrl,
+      http: {
+        ...config.http,
+        baseUrl: config.http.baseUrl ?? `http://localhost:${config.http.port}`,
+      },
+    };
+  });
+
+export type Config = z.output<typeof configSchema>;
@@ -0,0 +1,15 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { Request } from 'express';
+
+// Compare digests so the check takes the same time whatever the input length
+function isAdminToken(candidate: string, adminToken: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(candidate), digest(adminToken));
+}
+
+/** Whether the request carries `Bearer <adminToken>` in its Authorization header. */
+export function hasAdminToken(req: Request, adminToken: string): boolean {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : undefined;
+  return token !== undefined && isAdminToken(token, adminToken);
+}
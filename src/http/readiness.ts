@@ -0,0 +1,116 @@
+import { ConcurrencyLimiter } from '../api/limiter.js';
+
+export interface UpstreamCheck {
+  name: string;
+  url: string;
+  status: 'up' | 'down';
+  latencyMs: number;
+  statusCode?: number;
+  error?: string;
+}
+
+export interface ReadinessReport {
+  status: 'ready' | 'not_ready';
+  checkedAt: string;
+  upstreams: UpstreamCheck[];
+  capacity: {
+    status: 'ok' | 'overloaded';
+    activeRequests: number;
+    queuedRequests: number;
+    maxQueued: number;
+  };
+}
+
+export interface ReadinessCheckerOptions {
+  /** Taxo base URLs to probe, by name. */
+  upstreams: Record<string, string>;
+  limiter: ConcurrencyLimiter;
+  /** Queued Taxo requests beyond which the server reports itself overloaded. */
+  maxQueued?: number;
+  /** How long an upstream probe result is reused, in milliseconds. */
+  cacheMs?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Answers readiness probes. Upstream reachability is probed without a token
+ * and cached, so frequent probes do not add load on Taxo; capacity is read
+ * from the shared limiter on every call.
+ */
+export class ReadinessChecker {
+  private cached?: { upstreams: UpstreamCheck[]; checkedAt: number };
+  private inFlight?: Promise<UpstreamCheck[]>;
+
+  constructor(private options: ReadinessCheckerOptions) {}
+
+  async check(): Promise<ReadinessReport> {
+    const { upstreams, checkedAt } = await this.upstreamStatus();
+    const maxQueued = this.options.maxQueued ?? 50;
+    const queuedRequests = this.options.limiter.pendingCount;
+    const overloaded = queuedRequests > maxQueued;
+    const upstreamsUp = upstreams.every((check) => check.status === 'up');
+
+    return {
+      status: upstreamsUp && !overloaded ? 'ready' : 'not_ready',
+      checkedAt: new Date(checkedAt).toISOString(),
+      upstreams,
+      capacity: {
+        status: overloaded ? 'overloaded' : 'ok',
+        activeRequests: this.options.limiter.activeCount,
+        queuedRequests,
+        maxQueued,
+      },
+    };
+  }
+
+  private async upstreamStatus(): Promise<{ upstreams: UpstreamCheck[]; checkedAt: number }> {
+    const cacheMs = this.options.cacheMs ?? 15_000;
+    if (this.cached && Date.now() - this.cached.checkedAt < cacheMs) {
+      return this.cached;
+    }
+
+    // Concurrent probes share one round of upstream checks
+    this.inFlight ??= Promise.all(
+      Object.entries(this.options.upstreams).map(([name, url]) => this.probe(name, url))
+    ).finally(() => {
+      this.inFlight = undefined;
+    });
+
+    const upstreams = await this.inFlight;
+    this.cached = { upstreams, checkedAt: Date.now() };
+    return this.cached;
+  }
+
+  private async probe(name: string, url: string): Promise<UpstreamCheck> {
+    const timeoutMs = this.options.timeoutMs ?? 5_000;
+    const startedAt = Date.now();
+
+    try {
+      const response = await fetch(url, {
+        method: 'HEAD',
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      // Any answer below 500 means Taxo is up, even if this unauthenticated path is rejected
+      return {
+        name,
+        url,
+        status: response.status < 500 ? 'up' : 'down',
+        latencyMs: Date.now() - startedAt,
+        statusCode: response.status,
+      };
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === 'TimeoutError';
+      return {
+        name,
+        url,
+        status: 'down',
+        latencyMs: Date.now() - startedAt,
+        error: timedOut
+          ? `No response within ${timeoutMs}ms`
+          : error instanceof Error
+            ? error.message
+            : String(error),
+      };
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import { randomUUID } from 'node:crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+
+import { isResultForJob, refreshExtractionJob } from '../jobs/tracker.js';
+import { logger } from '../logger.js';
+import { createServer, ServerOptions } from '../server.js';
+import { ToolContext } from '../tools/index.js';
+import { ExtractionResultRecord } from '../webhooks/store.js';
+
+export interface McpSession {
+  id: string;
+  /** Hash of the Taxo token that opened the session. */
+  tokenKey: string;
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  context: ToolContext;
+  lastActivity: number;
+}
+
+// Resource URIs refreshed by each extraction type
+const RESOURCE_PATHS: Partial<Record<ExtractionResultRecord['type'], string>> = {
+  oc: 'compliance-opinion',
+  csf: 'tax-status',
+};
+
+/**
+ * Keeps stateful Streamable HTTP sessions alive between requests, expires
+ * idle ones, and pushes notifications to sessions waiting on extractions.
+ */
+export class SessionManager {
+  private sessions = new Map<string, McpSession>();
+  private sweeper: NodeJS.Timeout;
+
+  constructor(private idleTimeoutMs: number) {
+    this.sweeper = setInterval(() => void this.sweep(), Math.min(idleTimeoutMs, 60_000));
+    this.sweeper.unref();
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /** Creates the transport for a new session; it is registered once initialized. */
+  async open(
+    tokenKey: string,
+    context: ToolContext,
+    serverOptions?: ServerOptions
+  ): Promise<StreamableHTTPServerTransport> {
+    const server = createServer(context, serverOptions);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, {
+          id,
+          tokenKey,
+          server,
+          transport,
+          context,
+          lastActivity: Date.now(),
+        });
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    return transport;
+  }
+
+  /** Looks up a session, refusing access with a token other than the one that opened it. */
+  get(id: string, tokenKey: string): McpSession | undefined {
+    const session = this.sessions.get(id);
+    if (!session || session.tokenKey !== tokenKey) {
+      return undefined;
+    }
+    session.lastActivity = Date.now();
+    return session;
+  }
+
+  async close(id: string): Promise<void> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(id);
+    await session.server.close();
+  }
+
+  async closeAll(): Promise<void> {
+    clearInterval(this.sweeper);
+    await Promise.all([...this.sessions.keys()].map((id) => this.close(id)));
+  }
+
+  /**
+   * Completes pending jobs the webhook result answers and tells the sessions
+   * that requested them, via a log message and a resource-updated event.
+   * Sessions of other tokens never see the result: their jobs do not match.
+   */
+  async notifyResult(record: ExtractionResultRecord): Promise<void> {
+    for (const session of this.sessions.values()) {
+      const pending = session.context.jobs
+        .list({ rfc: record.rfc, type: record.type, status: 'pending' })
+        .filter((job) => isResultForJob(job, record));
+      if (pending.length === 0) {
+        continue;
+      }
+
+      const jobs = await Promise.all(
+        pending.map((job) => refreshExtractionJob(job, session.context))
+      );
+
+      await session.server.sendLoggingMessage({
+        level: 'info',
+        logger: 'taxo-mx',
+        data: { event: 'extraction_completed', rfc: record.rfc, type: record.type, jobs },
+      });
+
+      const resourcePath = RESOURCE_PATHS[record.type];
+      if (resourcePath) {
+        await session.server.sendResourceUpdated({
+          uri: `taxo://taxpayer/${record.rfc}/${resourcePath}`,
+        });
+      }
+    }
+  }
+
+  private async sweep(): Promise<void> {
+    const cutoff = Date.now() - this.idleTimeoutMs;
+    for (const session of [...this.sessions.values()]) {
+      if (session.lastActivity < cutoff) {
+        await this.close(session.id).catch((error) => {
+          logger.error(`Failed to close expired session ${session.id}:`, error);
+        });
+      }
+    }
+  }
+}
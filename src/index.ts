@@ -1,581 +1,114 @@
 #!/usr/bin/env node
 
+import { createHash } from 'node:crypto';
 import express, { Request, Response } from 'express';
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-} from '@modelcontextprotocol/sdk/types.js';
-import { z } from 'zod';
-
-import { TaxoMxApiClient, TaxoMxApiError } from './api/client.js';
-
-function getPort(): number {
-  const port = process.env.PORT;
-  return port ? parseInt(port, 10) : 3000;
-}
+  getOAuthProtectedResourceMetadataUrl,
+  mcpAuthRouter,
+} from '@modelcontextprotocol/sdk/server/auth/router.js';
+import { requireBearerAuth } from '@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 
-function getBaseUrl(): string {
-  return process.env.BASE_URL || `http://localhost:${getPort()}`;
+import { TaxoMxApiClient, TaxoMxApiError, UpstreamAttempt } from './api/client.js';
+import { AuditLog } from './audit/log.js';
+import { createAuditRouter } from './audit/router.js';
+import { createLoginRouter } from './auth/login.js';
+import { TaxoOAuthProvider } from './auth/provider.js';
+import { ResponseCache } from './api/cache.js';
+import { ConcurrencyLimiter } from './api/limiter.js';
+import {
+  clientOptionsFromConfig,
+  ConfigError,
+  loadConfig,
+  maskConfig,
+  toolPolicyFromConfig,
+} from './config/index.js';
+import { ReadinessChecker } from './http/readiness.js';
+import { SessionManager } from './http/sessions.js';
+import { ServerMetrics } from './metrics/registry.js';
+import { createMetricsRouter } from './metrics/router.js';
+import { TokenStores } from './jobs/tokenStores.js';
+import { configureLogger, logger } from './logger.js';
+import { createRegistrationRouter } from './registrations/router.js';
+import { TaxpayerRegistrationService } from './registrations/service.js';
+import { createServer, ServerOptions } from './server.js';
+import {
+  assertKnownTools,
+  combineToolPolicies,
+  loadTokenPolicies,
+  TokenPolicies,
+  TOOLS,
+} from './tools/index.js';
+import { createWebhookRouter } from './webhooks/router.js';
+import { ExtractionResultStore } from './webhooks/store.js';
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
 }
 
 // ============================================
-// Tool Definitions
-// ============================================
-
-const TOOLS = [
-  // Compliance Opinion (Opinión de Cumplimiento)
-  {
-    name: 'extract_compliance_opinion',
-    description:
-      'Requests extraction of SAT compliance opinion (Opinión de Cumplimiento) for a taxpayer by RFC. This is an async operation.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        rfc: {
-          type: 'string',
-          description: 'Taxpayer RFC (Registro Federal de Contribuyentes)',
-        },
-      },
-      required: ['rfc'],
-    },
-  },
-  {
-    name: 'extract_compliance_opinion_by_accountant',
-    description:
-      'Requests extraction of compliance opinions for all taxpayers of an accountant. This is an async operation.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        accountantId: {
-          type: 'string',
-          description: 'Internal accountant ID',
-        },
-      },
-      required: ['accountantId'],
-    },
-  },
-  {
-    name: 'extract_compliance_opinion_all',
-    description:
-      'Requests extraction of compliance opinions for all valid taxpayers in the platform. This is an async operation.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {},
-    },
-  },
-  {
-    name: 'get_compliance_opinion',
-    description:
-      'Retrieves the SAT compliance opinion (Opinión de Cumplimiento) for a taxpayer. Returns the latest extracted opinion.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        rfc: {
-          type: 'string',
-          description: 'Taxpayer RFC',
-        },
-      },
-      required: ['rfc'],
-    },
-  },
-
-  // Tax Status Certificate (Constancia de Situación Fiscal)
-  {
-    name: 'extract_tax_status',
-    description:
-      'Requests extraction of tax status certificate (Constancia de Situación Fiscal) for a taxpayer by RFC. This is an async operation.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        rfc: {
-          type: 'string',
-          description: 'Taxpayer RFC',
-        },
-      },
-      required: ['rfc'],
-    },
-  },
-  {
-    name: 'extract_tax_status_by_accountant',
-    description:
-      'Requests extraction of tax status certificates for all taxpayers of an accountant. This is an async operation.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        accountantId: {
-          type: 'string',
-          description: 'Internal accountant ID',
-        },
-      },
-      required: ['accountantId'],
-    },
-  },
-  {
-    name: 'extract_tax_status_all',
-    description:
-      'Requests extraction of tax status certificates for all valid taxpayers. This is an async operation.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {},
-    },
-  },
-  {
-    name: 'get_tax_status',
-    description:
-      'Retrieves the tax status certificate (Constancia de Situación Fiscal) for a taxpayer. Returns the latest extracted certificate.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        rfc: {
-          type: 'string',
-          description: 'Taxpayer RFC',
-        },
-      },
-      required: ['rfc'],
-    },
-  },
-
-  // CFDI (Electronic Invoices)
-  {
-    name: 'extract_cfdi',
-    description:
-      'Requests extraction of CFDI (electronic invoices) for a taxpayer. Can extract issued, received, or all invoices within a date range. This is an async operation.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        rfc: {
-          type: 'string',
-          description: 'Taxpayer RFC',
-        },
-        startDate: {
-          type: 'string',
-          description: 'Start date in YYYY-MM-DD format',
-        },
-        endDate: {
-          type: 'string',
-          description: 'End date in YYYY-MM-DD format',
-        },
-        extractionType: {
-          type: 'string',
-          enum: ['all', 'issued', 'received'],
-          description: 'Type of invoices to extract: all, issued (emitidos), or received (recibidos)',
-        },
-      },
-      required: ['rfc', 'startDate', 'endDate', 'extractionType'],
-    },
-  },
-  {
-    name: 'extract_cfdi_by_accountant',
-    description:
-      'Requests extraction of CFDI for all clients of an accountant within a date range. This is an async operation.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        accountantId: {
-          type: 'string',
-          description: 'Internal accountant ID',
-        },
-        startDate: {
-          type: 'string',
-          description: 'Start date in YYYY-MM-DD format',
-        },
-        endDate: {
-          type: 'string',
-          description: 'End date in YYYY-MM-DD format',
-        },
-      },
-      required: ['accountantId', 'startDate', 'endDate'],
-    },
-  },
-
-  // Tax Reports
-  {
-    name: 'get_monthly_tax_report',
-    description:
-      'Retrieves the monthly tax report for a taxpayer. Includes ISR, IVA, and other tax calculations.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        rfc: {
-          type: 'string',
-          description: 'Taxpayer RFC',
-        },
-        year: {
-          type: 'string',
-          description: 'Year (e.g., "2025")',
-        },
-        month: {
-          type: 'string',
-          description: 'Month in MM format (e.g., "04" for April)',
-        },
-      },
-      required: ['rfc', 'year', 'month'],
-    },
-  },
-
-  // Contacts
-  {
-    name: 'get_contacts',
-    description: 'Retrieves the contacts associated with a taxpayer.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        rfc: {
-          type: 'string',
-          description: 'Taxpayer RFC',
-        },
-      },
-      required: ['rfc'],
-    },
-  },
-
-  // Invoices / Documents
-  {
-    name: 'get_invoices',
-    description:
-      'Retrieves invoices/documents for a taxpayer with optional filters. Supports filtering by type, date, status, category, and more.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        rfc: {
-          type: 'string',
-          description: 'Taxpayer RFC',
-        },
-        type: {
-          type: 'string',
-          description: 'Invoice type filter',
-        },
-        year: {
-          type: 'string',
-          description: 'Filter by year',
-        },
-        month: {
-          type: 'string',
-          description: 'Filter by month',
-        },
-        status: {
-          type: 'string',
-          description: 'Invoice status filter',
-        },
-        category: {
-          type: 'string',
-          description: 'Category filter',
-        },
-        search: {
-          type: 'string',
-          description: 'Search term',
-        },
-        issuer: {
-          type: 'string',
-          description: 'Filter by issuer',
-        },
-        paymentType: {
-          type: 'string',
-          description: 'Payment type filter',
-        },
-        paymentWay: {
-          type: 'string',
-          description: 'Payment method filter',
-        },
-      },
-      required: ['rfc'],
-    },
-  },
-
-  // Categories
-  {
-    name: 'get_categories',
-    description: 'Retrieves all categories defined in Taxo for invoice classification.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {},
-    },
-  },
-
-  // Taxpayer Management
-  {
-    name: 'create_taxpayer',
-    description:
-      'Creates a new taxpayer under an accountant. Requires the RFC and CIEC (SAT password) to enable document extraction.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        accountantId: {
-          type: 'string',
-          description: 'Internal accountant ID',
-        },
-        rfc: {
-          type: 'string',
-          description: 'Taxpayer RFC',
-        },
-        ciec: {
-          type: 'string',
-          description: 'CIEC password for SAT access',
-        },
-      },
-      required: ['accountantId', 'rfc', 'ciec'],
-    },
-  },
-];
-
-// ============================================
-// Input Schemas
+// HTTP Server
 // ============================================
 
-const rfcSchema = z.object({ rfc: z.string() });
-const accountantIdSchema = z.object({ accountantId: z.string() });
-
-const extractCfdiSchema = z.object({
-  rfc: z.string(),
-  startDate: z.string(),
-  endDate: z.string(),
-  extractionType: z.enum(['all', 'issued', 'received']),
-});
-
-const extractCfdiAccountantSchema = z.object({
-  accountantId: z.string(),
-  startDate: z.string(),
-  endDate: z.string(),
-});
-
-const taxReportSchema = z.object({
-  rfc: z.string(),
-  year: z.string(),
-  month: z.string(),
-});
-
-const getInvoicesSchema = z.object({
-  rfc: z.string(),
-  type: z.string().optional(),
-  year: z.string().optional(),
-  month: z.string().optional(),
-  status: z.string().optional(),
-  category: z.string().optional(),
-  search: z.string().optional(),
-  issuer: z.string().optional(),
-  paymentType: z.string().optional(),
-  paymentWay: z.string().optional(),
-});
-
-const createTaxpayerSchema = z.object({
-  accountantId: z.string(),
-  rfc: z.string(),
-  ciec: z.string(),
-});
-
-// ============================================
-// Server Factory
-// ============================================
-
-function createServer(client: TaxoMxApiClient): Server {
-  const server = new Server(
-    {
-      name: 'taxo-mx-mcp',
-      version: '1.0.0',
-    },
-    {
-      capabilities: {
-        tools: {},
-      },
-    }
-  );
-
-  server.setRequestHandler(ListToolsRequestSchema, async () => ({
-    tools: TOOLS,
-  }));
-
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
-
-    try {
-      let result: unknown;
-
-      switch (name) {
-        // Compliance Opinion
-        case 'extract_compliance_opinion': {
-          const input = rfcSchema.parse(args);
-          result = await client.extractComplianceOpinionByRfc(input.rfc);
-          break;
-        }
-        case 'extract_compliance_opinion_by_accountant': {
-          const input = accountantIdSchema.parse(args);
-          result = await client.extractComplianceOpinionByAccountant(input.accountantId);
-          break;
-        }
-        case 'extract_compliance_opinion_all': {
-          result = await client.extractComplianceOpinionAll();
-          break;
-        }
-        case 'get_compliance_opinion': {
-          const input = rfcSchema.parse(args);
-          result = await client.getComplianceOpinion(input.rfc);
-          break;
-        }
-
-        // Tax Status
-        case 'extract_tax_status': {
-          const input = rfcSchema.parse(args);
-          result = await client.extractTaxStatusByRfc(input.rfc);
-          break;
-        }
-        case 'extract_tax_status_by_accountant': {
-          const input = accountantIdSchema.parse(args);
-          result = await client.extractTaxStatusByAccountant(input.accountantId);
-          break;
-        }
-        case 'extract_tax_status_all': {
-          result = await client.extractTaxStatusAll();
-          break;
-        }
-        case 'get_tax_status': {
-          const input = rfcSchema.parse(args);
-          result = await client.getTaxStatus(input.rfc);
-          break;
-        }
-
-        // CFDI
-        case 'extract_cfdi': {
-          const input = extractCfdiSchema.parse(args);
-          result = await client.extractCfdiByRfc(input);
-          break;
-        }
-        case 'extract_cfdi_by_accountant': {
-          const input = extractCfdiAccountantSchema.parse(args);
-          result = await client.extractCfdiByAccountant(input);
-          break;
-        }
-
-        // Tax Reports
-        case 'get_monthly_tax_report': {
-          const input = taxReportSchema.parse(args);
-          result = await client.getMonthlyTaxReport(input.rfc, input.year, input.month);
-          break;
-        }
-
-        // Contacts
-        case 'get_contacts': {
-          const input = rfcSchema.parse(args);
-          result = await client.getContacts(input.rfc);
-          break;
-        }
-
-        // Invoices
-        case 'get_invoices': {
-          const input = getInvoicesSchema.parse(args);
-          const { rfc, ...filters } = input;
-          result = await client.getInvoices(rfc, filters);
-          break;
-        }
-
-        // Categories
-        case 'get_categories': {
-          result = await client.getCategories();
-          break;
-        }
-
-        // Taxpayer Management
-        case 'create_taxpayer': {
-          const input = createTaxpayerSchema.parse(args);
-          result = await client.createTaxpayer(
-            input.accountantId,
-            input.rfc,
-            input.ciec
-          );
-          break;
-        }
-
-        default:
-          throw new Error(`Unknown tool: ${name}`);
-      }
-
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
-      };
-    } catch (error) {
-      if (error instanceof TaxoMxApiError) {
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: JSON.stringify(
-                {
-                  error: true,
-                  statusCode: error.statusCode,
-                  message: error.message,
-                  details: error.details,
-                },
-                null,
-                2
-              ),
-            },
-          ],
-          isError: true,
-        };
-      }
+async function main() {
+  const { config, printConfig } = loadConfig();
+  if (printConfig) {
+    console.log(JSON.stringify(maskConfig(config), null, 2));
+    return;
+  }
+  configureLogger(config.logging);
 
-      if (error instanceof Error) {
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: JSON.stringify(
-                {
-                  error: true,
-                  message: error.message,
-                },
-                null,
-                2
-              ),
-            },
-          ],
-          isError: true,
-        };
-      }
+  const { port, baseUrl } = config.http;
 
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: JSON.stringify(
-              {
-                error: true,
-                message: 'An unknown error occurred',
-              },
-              null,
-              2
-            ),
-          },
-        ],
-        isError: true,
-      };
-    }
+  const app = express();
+  const clientOptions = clientOptionsFromConfig(config);
+
+  // Clients are created per request, so they share one limiter to cap load on Taxo
+  const limiter = new ConcurrencyLimiter(config.client.maxConcurrency);
+  const cache = clientOptions.cacheEnabled ? new ResponseCache() : undefined;
+
+  // Prometheus metrics, on unless disabled
+  const metrics = config.http.metrics ? new ServerMetrics(limiter) : undefined;
+  const onAttempt = metrics && ((attempt: UpstreamAttempt) => metrics.observeUpstream(attempt));
+  const results = new ExtractionResultStore(config.webhooks.store);
+
+  // Tool restrictions: server-wide from config, narrowed further per token
+  const serverToolPolicy = toolPolicyFromConfig(config);
+  const tokenPolicies: TokenPolicies = config.tools.policyFile
+    ? loadTokenPolicies(config.tools.policyFile)
+    : {};
+  for (const policy of [serverToolPolicy, ...Object.values(tokenPolicies)]) {
+    assertKnownTools(policy, TOOLS);
+  }
+
+  // Audit trail of tool calls, identified by token hash
+  const auditLog = config.audit.log ? new AuditLog(config.audit.log) : undefined;
+
+  const getServerOptions = (tokenKey: string): ServerOptions => ({
+    toolPolicy: combineToolPolicies(serverToolPolicy, tokenPolicies[tokenKey]),
+    audit: auditLog && { log: auditLog, tokenId: tokenKey },
+    metrics,
   });
 
-  return server;
-}
+  // One-time CIEC forms, served by this app under its base URL
+  const registrations = new TaxpayerRegistrationService({ getBaseUrl: async () => baseUrl });
 
-// ============================================
-// HTTP Server (Stateless Mode)
-// ============================================
+  // Stateful mode keeps sessions open so results can be pushed to clients
+  const stateful = config.http.sessionMode === 'stateful';
+  const sessions = stateful ? new SessionManager(config.http.sessionTtlSeconds * 1000) : undefined;
 
-async function main() {
-  const port = getPort();
-  const baseUrl = getBaseUrl();
-
-  const app = express();
+  // Jobs and confirmations outlive the per-request MCP server, so keep them per token
+  const tokenStores = new TokenStores();
 
   // CORS middleware
   app.use((req: Request, res: Response, next) => {
     res.header('Access-Control-Allow-Origin', '*');
-    res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Accept');
+    res.header('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.header(
+      'Access-Control-Allow-Headers',
+      'Content-Type, Authorization, Accept, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID'
+    );
+    res.header('Access-Control-Expose-Headers', 'Mcp-Session-Id, WWW-Authenticate');
 
     if (req.method === 'OPTIONS') {
       res.sendStatus(200);
@@ -584,42 +117,78 @@ async function main() {
     next();
   });
 
+  if (metrics) {
+    app.use((_req: Request, res: Response, next) => {
+      metrics.trackHttpRequest(res);
+      next();
+    });
+    app.use(createMetricsRouter({ metrics, token: config.http.metricsToken }));
+  }
+
   // Health check endpoint
   app.get('/health', (_req: Request, res: Response) => {
     res.json({ status: 'ok', server: 'taxo-mx-mcp', version: '1.0.0' });
   });
 
-  // MCP endpoint handler - stateless mode
-  const handleMcpRequest = async (req: Request, res: Response, pathToken?: string) => {
-    if (req.method !== 'POST') {
-      res.status(405).json({ error: 'Method not allowed. Use POST for MCP requests.' });
-      return;
-    }
+  // Readiness probe: Taxo reachability (cached) and request backlog
+  const readiness = new ReadinessChecker({
+    upstreams: { app: config.appBaseUrl, demo: config.demoBaseUrl },
+    limiter,
+    maxQueued: config.http.readyMaxQueued,
+    cacheMs: config.http.readyCacheTtlSeconds * 1000,
+  });
+  app.get('/ready', async (_req: Request, res: Response) => {
+    const report = await readiness.check();
+    res.status(report.status === 'ready' ? 200 : 503).json(report);
+  });
 
-    // Token from URL path takes priority, then Authorization header
-    let token = pathToken;
-    if (!token) {
-      const authHeader = req.headers['authorization'] as string;
-      if (authHeader?.startsWith('Bearer ')) {
-        token = authHeader.slice(7);
-      }
-    }
+  // Webhook receiver for extraction results (enabled when a secret is configured)
+  const webhookSecret = config.webhooks.secret;
+  if (webhookSecret) {
+    app.use(
+      '/webhooks/taxo',
+      createWebhookRouter({
+        secret: webhookSecret,
+        toleranceSeconds: config.webhooks.toleranceSeconds,
+        store: results,
+        onResult: (record) => {
+          cache?.invalidate(`${record.type}:${record.rfc}`);
+          return sessions?.notifyResult(record);
+        },
+      })
+    );
+  }
+
+  app.use(createRegistrationRouter(registrations));
+
+  // Audit query route for admins (enabled when an audit log and admin token are configured)
+  const auditAdminToken = config.audit.adminToken;
+  if (auditLog && auditAdminToken) {
+    app.use(createAuditRouter({ log: auditLog, adminToken: auditAdminToken }));
+  }
+
+  const createContext = (token: string, tokenKey: string) => ({
+    client: new TaxoMxApiClient({ ...clientOptions, token, limiter, cache, onAttempt }),
+    results,
+    // Results from every token share one store; each caller sees only its own
+    ownResultsOnly: true,
+    ...tokenStores.forToken(tokenKey),
+    registrations,
+  });
 
-    if (!token) {
-      res.status(401).json({
-        error: 'Authentication required',
-        hint: 'Provide token in URL path (/mcp/YOUR_TOKEN) or Authorization: Bearer header',
-      });
+  // Stateless mode: fresh transport and server for each POST
+  const handleStatelessRequest = async (req: Request, res: Response, token: string) => {
+    if (req.method !== 'POST') {
+      res.status(405).json({ error: 'Method not allowed. Use POST for MCP requests.' });
       return;
     }
 
-    // Create fresh transport and server for each request (stateless mode)
-    const client = new TaxoMxApiClient({ token });
     const transport = new StreamableHTTPServerTransport({
       sessionIdGenerator: undefined, // Stateless mode
     });
 
-    const server = createServer(client);
+    const tokenKey = hashToken(token);
+    const server = createServer(createContext(token, tokenKey), getServerOptions(tokenKey));
     await server.connect(transport);
 
     await transport.handleRequest(req, res);
@@ -628,26 +197,159 @@ async function main() {
     await transport.close();
   };
 
-  // MCP endpoint with token in URL path
-  app.all('/mcp/:token', async (req: Request, res: Response) => {
-    await handleMcpRequest(req, res, req.params.token);
-  });
+  // Stateful mode: POST, GET (SSE stream) and DELETE are routed to the session
+  const handleStatefulRequest = async (
+    req: Request,
+    res: Response,
+    token: string,
+    manager: SessionManager
+  ) => {
+    const tokenKey = hashToken(token);
+    const sessionId = req.header('mcp-session-id');
+
+    if (sessionId) {
+      const session = manager.get(sessionId, tokenKey);
+      if (!session) {
+        res.status(404).json({
+          jsonrpc: '2.0',
+          error: { code: -32001, message: 'Session not found or expired' },
+          id: null,
+        });
+        return;
+      }
+      await session.transport.handleRequest(req, res);
+      return;
+    }
 
-  // MCP endpoint with header auth
-  app.all('/mcp', async (req: Request, res: Response) => {
-    await handleMcpRequest(req, res);
-  });
+    if (req.method !== 'POST') {
+      res.status(400).json({
+        error: 'Mcp-Session-Id header required. Initialize the session with a POST first.',
+      });
+      return;
+    }
+
+    const transport = await manager.open(
+      tokenKey,
+      createContext(token, tokenKey),
+      getServerOptions(tokenKey)
+    );
+    await transport.handleRequest(req, res);
+
+    // Anything but a successful initialize leaves no session behind
+    if (!transport.sessionId) {
+      await transport.close();
+    }
+  };
+
+  const handleMcpRequest = async (req: Request, res: Response, token: string) => {
+    if (sessions) {
+      await handleStatefulRequest(req, res, token, sessions);
+    } else {
+      await handleStatelessRequest(req, res, token);
+    }
+  };
+
+  // MCP endpoint with token in URL path; it leaks tokens into logs, so it can be turned off
+  const { pathTokens, oauth } = config.http;
+  if (pathTokens) {
+    app.all('/mcp/:token', async (req: Request, res: Response) => {
+      await handleMcpRequest(req, res, req.params.token);
+    });
+  }
+
+  if (oauth) {
+    // OAuth 2.1: clients get opaque access tokens mapped to a Taxo token server-side
+    const provider = new TaxoOAuthProvider({
+      verifyTaxoToken: async (token) => {
+        try {
+          const client = new TaxoMxApiClient({ ...clientOptions, token, limiter, onAttempt });
+          await client.getCategories();
+          return true;
+        } catch (error) {
+          if (error instanceof TaxoMxApiError && [401, 403].includes(error.statusCode)) {
+            return false;
+          }
+          throw error;
+        }
+      },
+      accessTokenTtlSeconds: config.http.oauthTokenTtlSeconds,
+    });
+    const mcpUrl = new URL('/mcp', baseUrl);
+
+    app.use(
+      mcpAuthRouter({
+        provider,
+        issuerUrl: new URL(baseUrl),
+        resourceServerUrl: mcpUrl,
+        resourceName: 'Taxo MX MCP',
+      })
+    );
+    app.use(createLoginRouter(provider));
+
+    app.all(
+      '/mcp',
+      requireBearerAuth({
+        verifier: provider,
+        resourceMetadataUrl: getOAuthProtectedResourceMetadataUrl(mcpUrl),
+      }),
+      async (req: Request, res: Response) => {
+        await handleMcpRequest(req, res, req.auth?.extra?.taxoToken as string);
+      }
+    );
+  } else {
+    // MCP endpoint with header auth
+    app.all('/mcp', async (req: Request, res: Response) => {
+      const authHeader = req.headers['authorization'] as string;
+      const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : undefined;
+
+      if (!token) {
+        res.status(401).json({
+          error: 'Authentication required',
+          hint: pathTokens
+            ? 'Provide token in URL path (/mcp/YOUR_TOKEN) or Authorization: Bearer header'
+            : 'Provide token in Authorization: Bearer header',
+        });
+        return;
+      }
+
+      await handleMcpRequest(req, res, token);
+    });
+  }
 
   app.listen(port, () => {
-    console.log(`Taxo MX MCP Server running on ${baseUrl} (stateless mode)`);
-    console.log(`MCP endpoint: ${baseUrl}/mcp`);
-    console.log(`Health check: ${baseUrl}/health`);
-    console.log('');
-    console.log('Provide token via Authorization: Bearer header or URL path (/mcp/YOUR_TOKEN)');
+    logger.info(
+      `Taxo MX MCP Server running on ${baseUrl} (${stateful ? 'stateful' : 'stateless'} mode)`
+    );
+    logger.info(`Taxo API: ${config.environment} (${config.appBaseUrl}, ${config.demoBaseUrl})`);
+    logger.info(`MCP endpoint: ${baseUrl}/mcp`);
+    logger.info(`Health check: ${baseUrl}/health`);
+    logger.info(`Readiness: ${baseUrl}/ready`);
+    if (metrics) {
+      logger.info(`Metrics: ${baseUrl}/metrics`);
+    }
+    if (webhookSecret) {
+      logger.info(`Webhook receiver: ${baseUrl}/webhooks/taxo`);
+    }
+    if (auditLog && auditAdminToken) {
+      logger.info(`Audit log: ${baseUrl}/audit`);
+    }
+    if (oauth) {
+      logger.info(`OAuth authorization server: ${baseUrl}/.well-known/oauth-authorization-server`);
+    } else {
+      logger.info(
+        pathTokens
+          ? 'Provide token via Authorization: Bearer header or URL path (/mcp/YOUR_TOKEN)'
+          : 'Provide token via Authorization: Bearer header'
+      );
+    }
   });
 }
 
 main().catch((error) => {
-  console.error('Fatal error:', error);
+  if (error instanceof ConfigError) {
+    logger.error(error.message);
+    process.exit(1);
+  }
+  logger.error('Fatal error:', error);
   process.exit(1);
 });
@@ -0,0 +1,68 @@
+import { randomUUID } from 'node:crypto';
+
+interface PendingConfirmation {
+  tool: string;
+  /** Serialized tool input the token was issued for. */
+  input: string;
+  expiresAt: number;
+}
+
+export const UNKNOWN_CONFIRMATION =
+  'Confirmation token is unknown, expired or already used. Call the tool without confirmationToken for a new dry run.';
+
+export class BulkConfirmationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BulkConfirmationError';
+  }
+}
+
+/** The store operations tools rely on. */
+export type ConfirmationStore = Pick<BulkConfirmationStore, 'issue' | 'consume'>;
+
+/**
+ * Single-use tokens handed out by a bulk extraction dry run. A token only
+ * confirms the exact tool and arguments it was issued for.
+ */
+export class BulkConfirmationStore {
+  private pending = new Map<string, PendingConfirmation>();
+  private ttlMs: number;
+
+  constructor(ttlSeconds = 300) {
+    this.ttlMs = ttlSeconds * 1000;
+  }
+
+  issue(tool: string, input: unknown): { token: string; expiresAt: string } {
+    this.prune();
+
+    const token = randomUUID();
+    const expiresAt = Date.now() + this.ttlMs;
+    this.pending.set(token, { tool, input: JSON.stringify(input), expiresAt });
+    return { token, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  /** Spends the token, throwing when it is unknown, expired or issued for another call. */
+  consume(token: string, tool: string, input: unknown): void {
+    this.prune();
+
+    const confirmation = this.pending.get(token);
+    if (!confirmation) {
+      throw new BulkConfirmationError(UNKNOWN_CONFIRMATION);
+    }
+    if (confirmation.tool !== tool || confirmation.input !== JSON.stringify(input)) {
+      throw new BulkConfirmationError(
+        `Confirmation token was issued for ${confirmation.tool} with different arguments`
+      );
+    }
+    this.pending.delete(token);
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, confirmation] of this.pending) {
+      if (confirmation.expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
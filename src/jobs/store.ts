@@ -0,0 +1,97 @@
+import { randomUUID } from 'node:crypto';
+
+import { ExtractionType } from '../webhooks/store.js';
+
+export type ExtractionJobStatus = 'pending' | 'completed' | 'failed';
+
+export interface ExtractionJob {
+  id: string;
+  rfc: string;
+  type: ExtractionType;
+  extractionType?: 'all' | 'issued' | 'received';
+  startDate?: string;
+  endDate?: string;
+  requestedAt: string;
+  /** Taxo task ID from the extraction response; webhook payloads carry it back. */
+  taskId?: string;
+  status: ExtractionJobStatus;
+  completedAt?: string;
+  completedVia?: 'webhook' | 'api';
+  error?: string;
+}
+
+export type NewExtractionJob = Pick<
+  ExtractionJob,
+  'rfc' | 'type' | 'extractionType' | 'startDate' | 'endDate'
+>;
+
+export interface ExtractionJobQuery {
+  rfc?: string;
+  type?: ExtractionType;
+  status?: ExtractionJobStatus;
+  limit?: number;
+}
+
+/** The store operations tools rely on. */
+export type JobStore = Pick<ExtractionJobStore, 'create' | 'get' | 'update' | 'list'>;
+
+/**
+ * In-memory record of extraction requests made through this server. Finished
+ * jobs are dropped once they were requested longer ago than the retention.
+ */
+export class ExtractionJobStore {
+  private jobs = new Map<string, ExtractionJob>();
+  private retentionMs: number;
+
+  constructor(retentionSeconds = 24 * 60 * 60) {
+    this.retentionMs = retentionSeconds * 1000;
+  }
+
+  create(job: NewExtractionJob): ExtractionJob {
+    this.prune();
+
+    const created: ExtractionJob = {
+      ...job,
+      id: randomUUID(),
+      rfc: job.rfc.toUpperCase(),
+      requestedAt: new Date().toISOString(),
+      status: 'pending',
+    };
+    this.jobs.set(created.id, created);
+    return created;
+  }
+
+  get(id: string): ExtractionJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  update(id: string, changes: Partial<ExtractionJob>): ExtractionJob | undefined {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+    Object.assign(job, changes);
+    return job;
+  }
+
+  /** Returns matching jobs, newest first. */
+  list(query: ExtractionJobQuery = {}): ExtractionJob[] {
+    const rfc = query.rfc?.toUpperCase();
+    const matches = [...this.jobs.values()]
+      .filter((job) => !rfc || job.rfc === rfc)
+      .filter((job) => !query.type || job.type === query.type)
+      .filter((job) => !query.status || job.status === query.status)
+      .reverse();
+
+    return query.limit ? matches.slice(0, query.limit) : matches;
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    for (const [id, job] of this.jobs) {
+      if (job.status !== 'pending' && Date.parse(job.requestedAt) <= cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
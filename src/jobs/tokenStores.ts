@@ -0,0 +1,89 @@
+import {
+  BulkConfirmationError,
+  BulkConfirmationStore,
+  ConfirmationStore,
+  UNKNOWN_CONFIRMATION,
+} from './confirmations.js';
+import { ExtractionJobStore, JobStore } from './store.js';
+
+interface TokenStoreEntry {
+  jobs: ExtractionJobStore;
+  confirmations: BulkConfirmationStore;
+  lastActivity: number;
+}
+
+/**
+ * Jobs and confirmations of each token on the HTTP server, where they outlive
+ * the per-request MCP server. A token gets stores only once a tool records a
+ * job or issues a confirmation, so unknown bearer strings leave nothing
+ * behind; stores idle longer than the timeout are dropped.
+ */
+export class TokenStores {
+  private stores = new Map<string, TokenStoreEntry>();
+  private sweeper: NodeJS.Timeout;
+
+  constructor(private idleTimeoutMs = 24 * 60 * 60 * 1000) {
+    this.sweeper = setInterval(() => this.sweep(), Math.min(idleTimeoutMs, 60_000));
+    this.sweeper.unref();
+  }
+
+  get size(): number {
+    return this.stores.size;
+  }
+
+  /** Views of one token's stores for a tool context; reads never create them. */
+  forToken(key: string): { jobs: JobStore; confirmations: ConfirmationStore } {
+    return {
+      jobs: {
+        create: (job) => this.open(key).jobs.create(job),
+        get: (id) => this.find(key)?.jobs.get(id),
+        update: (id, changes) => this.find(key)?.jobs.update(id, changes),
+        list: (query) => this.find(key)?.jobs.list(query) ?? [],
+      },
+      confirmations: {
+        issue: (tool, input) => this.open(key).confirmations.issue(tool, input),
+        consume: (token, tool, input) => {
+          const stores = this.find(key);
+          if (!stores) {
+            throw new BulkConfirmationError(UNKNOWN_CONFIRMATION);
+          }
+          stores.confirmations.consume(token, tool, input);
+        },
+      },
+    };
+  }
+
+  close(): void {
+    clearInterval(this.sweeper);
+  }
+
+  private find(key: string): TokenStoreEntry | undefined {
+    const stores = this.stores.get(key);
+    if (stores) {
+      stores.lastActivity = Date.now();
+    }
+    return stores;
+  }
+
+  private open(key: string): TokenStoreEntry {
+    let stores = this.find(key);
+    if (!stores) {
+      stores = {
+        jobs: new ExtractionJobStore(),
+        confirmations: new BulkConfirmationStore(),
+        lastActivity: Date.now(),
+      };
+      this.stores.set(key, stores);
+    }
+    return stores;
+  }
+
+  private sweep(): void {
+    const cutoff = Date.now() - this.idleTimeoutMs;
+    for (const [key, stores] of this.stores) {
+      if (stores.lastActivity < cutoff) {
+        this.stores.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import { TaxoMxApiError } from '../api/client.js';
+import { ExtractionRequestResponse } from '../api/models.js';
+import { ToolContext } from '../tools/types.js';
+import { ExtractionResultRecord, resultTaskId } from '../webhooks/store.js';
+import { ExtractionJob, NewExtractionJob } from './store.js';
+
+/**
+ * Records an extraction request as a job. A failed request is kept as a
+ * failed job and the original error is rethrown to the caller.
+ */
+export async function trackExtraction(
+  context: ToolContext,
+  job: NewExtractionJob,
+  request: () => Promise<ExtractionRequestResponse>
+): Promise<{ job: ExtractionJob; response: ExtractionRequestResponse }> {
+  const created = context.jobs.create(job);
+
+  try {
+    const response = await request();
+    if (response.task_id !== undefined) {
+      context.jobs.update(created.id, { taskId: String(response.task_id) });
+    }
+    return { job: created, response };
+  } catch (error) {
+    context.jobs.update(created.id, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Whether a webhook result answers a job: same RFC and type, and the same
+ * Taxo task when both carry an ID. Without IDs, any result received after the
+ * request counts.
+ */
+export function isResultForJob(job: ExtractionJob, record: ExtractionResultRecord): boolean {
+  if (job.status === 'failed' || record.rfc !== job.rfc || record.type !== job.type) {
+    return false;
+  }
+  const taskId = resultTaskId(record);
+  if (job.taskId && taskId) {
+    return job.taskId === taskId;
+  }
+  return new Date(record.receivedAt) >= new Date(job.requestedAt);
+}
+
+async function fetchExtractedAt(
+  job: ExtractionJob,
+  context: ToolContext
+): Promise<string | undefined> {
+  // Polling must see new documents, so it always bypasses the response cache
+  try {
+    switch (job.type) {
+      case 'oc': {
+        const opinion = await context.client.getComplianceOpinion(job.rfc, { refresh: true });
+        return opinion.extracted_at ?? opinion.issued_at;
+      }
+      case 'csf': {
+        const taxStatus = await context.client.getTaxStatus(job.rfc, { refresh: true });
+        return taxStatus.extracted_at;
+      }
+      default:
+        // CFDI downloads are only reported through webhooks
+        return undefined;
+    }
+  } catch (error) {
+    // No document extracted yet
+    if (error instanceof TaxoMxApiError && error.statusCode === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Re-evaluates a pending job: it is complete once a webhook result or a
+ * document newer than the request time is available for its RFC.
+ */
+export async function refreshExtractionJob(
+  job: ExtractionJob,
+  context: ToolContext
+): Promise<ExtractionJob> {
+  if (job.status !== 'pending') {
+    return job;
+  }
+
+  const requestedAt = new Date(job.requestedAt);
+
+  const result = context.results
+    .query({ rfc: job.rfc, type: job.type })
+    .find((record) => isResultForJob(job, record));
+  if (result) {
+    return context.jobs.update(job.id, {
+      status: 'completed',
+      completedAt: result.receivedAt,
+      completedVia: 'webhook',
+    }) as ExtractionJob;
+  }
+
+  const extractedAtValue = await fetchExtractedAt(job, context);
+  const extractedAt = extractedAtValue ? new Date(extractedAtValue) : undefined;
+  if (extractedAt && !Number.isNaN(extractedAt.getTime()) && extractedAt >= requestedAt) {
+    return context.jobs.update(job.id, {
+      status: 'completed',
+      completedAt: extractedAt.toISOString(),
+      completedVia: 'api',
+    }) as ExtractionJob;
+  }
+
+  return job;
+}
@@ -0,0 +1,52 @@
+import { LogLevel } from './config/schema.js';
+
+export interface LoggerSettings {
+  level: LogLevel;
+  format: 'text' | 'json';
+  /** Send every level to stderr; the stdio server's stdout carries the MCP protocol. */
+  stderrOnly: boolean;
+}
+
+const SEVERITY: Record<LogLevel, number> = { error: 0, warn: 1, info: 2, debug: 3 };
+
+const settings: LoggerSettings = { level: 'info', format: 'text', stderrOnly: false };
+
+export function configureLogger(options: Partial<LoggerSettings>): void {
+  Object.assign(settings, options);
+}
+
+function write(level: LogLevel, message: string, error?: unknown): void {
+  if (SEVERITY[level] > SEVERITY[settings.level]) {
+    return;
+  }
+
+  const toStderr = settings.stderrOnly || level === 'error' || level === 'warn';
+  const print = toStderr ? console.error : console.log;
+
+  if (settings.format === 'json') {
+    print(
+      JSON.stringify({
+        time: new Date().toISOString(),
+        level,
+        message,
+        ...(error !== undefined
+          ? { error: error instanceof Error ? (error.stack ?? error.message) : String(error) }
+          : {}),
+      })
+    );
+    return;
+  }
+
+  if (error !== undefined) {
+    print(message, error);
+  } else {
+    print(message);
+  }
+}
+
+export const logger = {
+  error: (message: string, error?: unknown) => write('error', message, error),
+  warn: (message: string, error?: unknown) => write('warn', message, error),
+  info: (message: string) => write('info', message),
+  debug: (message: string) => write('debug', message),
+};
@@ -0,0 +1,108 @@
+import { Response } from 'express';
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+
+import { UpstreamAttempt } from '../api/client.js';
+import { ConcurrencyLimiter } from '../api/limiter.js';
+
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+/**
+ * Prometheus metrics for the HTTP server. Labels are limited to tool names,
+ * Taxo origins and status codes; RFCs and tokens never become label values.
+ */
+export class ServerMetrics {
+  readonly registry = new Registry();
+
+  private toolCalls = new Counter({
+    name: 'taxo_mcp_tool_calls_total',
+    help: 'Tool calls by tool and outcome',
+    labelNames: ['tool', 'outcome'] as const,
+    registers: [this.registry],
+  });
+
+  private toolDuration = new Histogram({
+    name: 'taxo_mcp_tool_duration_seconds',
+    help: 'Tool call latency in seconds',
+    labelNames: ['tool'] as const,
+    buckets: LATENCY_BUCKETS,
+    registers: [this.registry],
+  });
+
+  private toolErrors = new Counter({
+    name: 'taxo_mcp_tool_errors_total',
+    help: 'Failed tool calls by tool and status code (Taxo status for TaxoMxApiError)',
+    labelNames: ['tool', 'status_code'] as const,
+    registers: [this.registry],
+  });
+
+  private toolsInFlight = new Gauge({
+    name: 'taxo_mcp_tool_calls_in_flight',
+    help: 'Tool calls currently running',
+    registers: [this.registry],
+  });
+
+  private upstreamDuration = new Histogram({
+    name: 'taxo_mcp_upstream_request_duration_seconds',
+    help: 'Latency of each Taxo API attempt in seconds',
+    labelNames: ['base_url', 'method', 'status'] as const,
+    buckets: LATENCY_BUCKETS,
+    registers: [this.registry],
+  });
+
+  private httpInFlight = new Gauge({
+    name: 'taxo_mcp_http_requests_in_flight',
+    help: 'HTTP requests currently being served',
+    registers: [this.registry],
+  });
+
+  constructor(limiter?: ConcurrencyLimiter) {
+    collectDefaultMetrics({ register: this.registry });
+
+    if (limiter) {
+      new Gauge({
+        name: 'taxo_mcp_upstream_requests_active',
+        help: 'Taxo API requests holding a concurrency slot',
+        registers: [this.registry],
+        collect() {
+          this.set(limiter.activeCount);
+        },
+      });
+      new Gauge({
+        name: 'taxo_mcp_upstream_requests_queued',
+        help: 'Taxo API requests waiting for a concurrency slot',
+        registers: [this.registry],
+        collect() {
+          this.set(limiter.pendingCount);
+        },
+      });
+    }
+  }
+
+  /** Marks a tool call as started; the returned function records its outcome. */
+  startToolCall(tool: string): (outcome: 'success' | 'error', statusCode: number) => void {
+    const stopTimer = this.toolDuration.startTimer({ tool });
+    this.toolsInFlight.inc();
+
+    return (outcome, statusCode) => {
+      stopTimer();
+      this.toolsInFlight.dec();
+      this.toolCalls.inc({ tool, outcome });
+      if (outcome === 'error') {
+        this.toolErrors.inc({ tool, status_code: String(statusCode) });
+      }
+    };
+  }
+
+  observeUpstream(attempt: UpstreamAttempt): void {
+    this.upstreamDuration.observe(
+      { base_url: attempt.baseUrl, method: attempt.method, status: String(attempt.status) },
+      attempt.durationMs / 1000
+    );
+  }
+
+  /** Tracks one HTTP request until its response has finished or the socket closed. */
+  trackHttpRequest(response: Response): void {
+    this.httpInFlight.inc();
+    response.once('close', () => this.httpInFlight.dec());
+  }
+}
@@ -0,0 +1,27 @@
+import { Request, Response, Router } from 'express';
+
+import { hasAdminToken } from '../http/adminToken.js';
+import { ServerMetrics } from './registry.js';
+
+export interface MetricsRouterOptions {
+  metrics: ServerMetrics;
+  /** Bearer token scrapers must send; the endpoint is open when unset. */
+  token?: string;
+}
+
+export function createMetricsRouter(options: MetricsRouterOptions): Router {
+  const router = Router();
+
+  router.get('/metrics', async (req: Request, res: Response) => {
+    if (options.token && !hasAdminToken(req, options.token)) {
+      res.status(401).json({ error: 'Metrics token required' });
+      return;
+    }
+
+    const { registry } = options.metrics;
+    res.set('Content-Type', registry.contentType);
+    res.send(await registry.metrics());
+  });
+
+  return router;
+}
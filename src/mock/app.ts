@@ -0,0 +1,502 @@
+import { AddressInfo } from 'node:net';
+import express, { Express, NextFunction, Request, Response, Router } from 'express';
+import { z } from 'zod';
+
+import { sleep } from '../api/retry.js';
+import { logger } from '../logger.js';
+import { normalizeRfc, validateRfc } from '../validation/rfc.js';
+import { signWebhookPayload } from '../webhooks/signature.js';
+import { createFixtures, MOCK_TOKEN, MockInvoice, MockTaxoData } from './fixtures.js';
+
+/** A scripted failure for requests matching `path` and `method`. */
+export const mockFaultSchema = z
+  .object({
+    /** Path prefix to match, e.g. `/api/v1/invoices`; every API path when unset. */
+    path: z.string().optional(),
+    method: z.enum(['GET', 'POST']).optional(),
+    /** Status to answer with instead of the normal response. */
+    status: z.number().int().min(400).max(599).optional(),
+    /** Sent as `Retry-After` with the status. */
+    retryAfterSeconds: z.number().int().min(0).optional(),
+    /** Wait before answering, e.g. longer than the client timeout. */
+    delayMs: z.number().int().min(0).optional(),
+    /** Answer 200 with a body that fails response validation. */
+    malformed: z.boolean().optional(),
+    /** Matching requests that fail before the fault is used up; unlimited when unset. */
+    times: z.number().int().positive().optional(),
+  })
+  .strict();
+
+export type MockFault = z.infer<typeof mockFaultSchema>;
+
+export interface MockTaxoOptions {
+  /** Bearer token the mock accepts. */
+  token?: string;
+  /** Further tokens accepted, to stand in for several Taxo accounts. */
+  extraTokens?: string[];
+  /** Added to every API response. */
+  latencyMs?: number;
+  faults?: MockFault[];
+  /** Deliver signed extraction results, as Taxo does, to an MCP server's webhook receiver. */
+  webhook?: { url: string; secret: string; delayMs?: number };
+}
+
+export interface MockRequestRecord {
+  method: string;
+  path: string;
+  status: number;
+  at: string;
+}
+
+const MAX_RECORDED_REQUESTS = 500;
+
+const rfcBody = z.object({ rfc: z.string().min(1) });
+const accountantBody = z.object({ accountant_id: z.union([z.string(), z.number()]) });
+const dateField = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+const cfdiClientBody = z.object({
+  rfc: z.string().min(1),
+  start_date: dateField,
+  end_date: dateField,
+  extraction_type: z.enum(['all', 'issued', 'received']),
+});
+const cfdiAccountantBody = accountantBody.extend({ start_date: dateField, end_date: dateField });
+const createTaxpayerBody = z.object({ rfc: z.string().min(1), ciec: z.string().min(8) });
+
+type ExtractionType = 'oc' | 'csf' | 'cfdi';
+
+function matchesInvoiceFilters(invoice: MockInvoice, rfc: string, query: Request['query']): boolean {
+  const param = (name: string) => (typeof query[name] === 'string' ? (query[name] as string) : '');
+  const type = param('type');
+  const year = param('year');
+  const month = param('month');
+  const status = param('status');
+  const search = param('search').toLowerCase();
+  const category = param('category');
+  const issuer = param('issuer').toUpperCase();
+  const paymentType = param('paymentType').toUpperCase();
+  const paymentWay = param('paymentWay');
+
+  // `type` is either the CFDI type (I, E, P) or the direction seen from `rfc`
+  if (type === 'issued' && invoice.issuer_rfc !== rfc) return false;
+  if (type === 'received' && invoice.receiver_rfc !== rfc) return false;
+  if (type && type !== 'issued' && type !== 'received' && invoice.type !== type.toUpperCase()) {
+    return false;
+  }
+  if (year && invoice.date.slice(0, 4) !== year) return false;
+  if (month && invoice.date.slice(5, 7) !== month.padStart(2, '0')) return false;
+  if (status && invoice.status !== status.toLowerCase()) return false;
+  if (category && invoice.category !== category) return false;
+  if (issuer && invoice.issuer_rfc !== issuer) return false;
+  if (paymentType && invoice.payment_type !== paymentType) return false;
+  if (paymentWay && invoice.payment_way !== paymentWay) return false;
+  if (
+    search &&
+    ![invoice.uuid, invoice.issuer_name, invoice.receiver_name].some((value) =>
+      value.toLowerCase().includes(search)
+    )
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * In-process stand-in for the Taxo API: serves every route `TaxoMxApiClient`
+ * calls, from both its app and demo base URLs, with fixture data. Scripted
+ * faults and the request log are driven through the unauthenticated
+ * `/__mock` routes.
+ */
+export function createMockTaxoApp(options: MockTaxoOptions = {}): Express {
+  const tokens = new Set([options.token ?? MOCK_TOKEN, ...(options.extraTokens ?? [])]);
+  let data: MockTaxoData = createFixtures();
+  let faults: MockFault[] = structuredClone(options.faults ?? []);
+  let requests: MockRequestRecord[] = [];
+  let nextTaskId = 1;
+
+  const app = express();
+  app.use(express.json());
+
+  // ============================================
+  // Control Routes
+  // ============================================
+
+  const control = Router();
+
+  control.get('/requests', (_req: Request, res: Response) => {
+    res.json({ count: requests.length, requests });
+  });
+
+  control.post('/faults', (req: Request, res: Response) => {
+    const parsed = mockFaultSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid fault', details: parsed.error.issues });
+      return;
+    }
+    faults.push(parsed.data);
+    res.status(201).json({ faults });
+  });
+
+  control.delete('/faults', (_req: Request, res: Response) => {
+    faults = [];
+    res.status(204).end();
+  });
+
+  control.post('/reset', (_req: Request, res: Response) => {
+    data = createFixtures();
+    faults = structuredClone(options.faults ?? []);
+    requests = [];
+    res.status(204).end();
+  });
+
+  app.use('/__mock', control);
+
+  // Readiness probes send HEAD to the base URL
+  app.get('/', (_req: Request, res: Response) => {
+    res.json({ service: 'taxo-mock' });
+  });
+
+  // ============================================
+  // Request Log, Latency and Faults
+  // ============================================
+
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    res.on('finish', () => {
+      requests.push({
+        method: req.method,
+        path: req.originalUrl,
+        status: res.statusCode,
+        at: new Date().toISOString(),
+      });
+      if (requests.length > MAX_RECORDED_REQUESTS) {
+        requests.shift();
+      }
+    });
+    next();
+  });
+
+  app.use(async (req: Request, res: Response, next: NextFunction) => {
+    if (options.latencyMs) {
+      await sleep(options.latencyMs);
+    }
+
+    const index = faults.findIndex(
+      (fault) =>
+        (!fault.path || req.path.startsWith(fault.path)) &&
+        (!fault.method || fault.method === req.method)
+    );
+    if (index === -1) {
+      next();
+      return;
+    }
+
+    const fault = faults[index];
+    if (fault.times !== undefined) {
+      fault.times -= 1;
+      if (fault.times === 0) {
+        faults.splice(index, 1);
+      }
+    }
+
+    if (fault.delayMs) {
+      await sleep(fault.delayMs);
+    }
+    if (fault.malformed) {
+      res.json('malformed');
+      return;
+    }
+    if (fault.status) {
+      if (fault.retryAfterSeconds !== undefined) {
+        res.set('Retry-After', String(fault.retryAfterSeconds));
+      }
+      res.status(fault.status).json({ message: `Mock fault (${fault.status})` });
+      return;
+    }
+    next();
+  });
+
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    const [scheme, token] = (req.headers['authorization'] ?? '').split(' ');
+    if (scheme !== 'Bearer' || !tokens.has(token)) {
+      res.status(401).json({ message: 'Unauthenticated.' });
+      return;
+    }
+    next();
+  });
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  const parseBody = <T>(schema: z.ZodType<T>, req: Request, res: Response): T | undefined => {
+    const parsed = schema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(422).json({ message: 'The given data was invalid.', errors: parsed.error.issues });
+      return undefined;
+    }
+    return parsed.data;
+  };
+
+  const findTaxpayer = (rfc: string, res: Response) => {
+    const taxpayer = data.taxpayers[normalizeRfc(rfc)];
+    if (!taxpayer) {
+      res.status(404).json({ message: `Taxpayer ${rfc} not found` });
+    }
+    return taxpayer;
+  };
+
+  const accountantClients = (accountantId: string, res: Response): string[] | undefined => {
+    if (!data.accountants[accountantId]) {
+      res.status(404).json({ message: `Accountant ${accountantId} not found` });
+      return undefined;
+    }
+    return Object.values(data.taxpayers)
+      .filter((taxpayer) => taxpayer.accountantId === accountantId)
+      .map((taxpayer) => taxpayer.rfc);
+  };
+
+  // Marks documents as freshly extracted and, when configured, delivers the webhook
+  const completeExtraction = (type: ExtractionType, rfcs: string[], taskId: number) => {
+    const extractedAt = new Date().toISOString();
+    for (const rfc of rfcs) {
+      const taxpayer = data.taxpayers[rfc];
+      if (type === 'oc') {
+        taxpayer.complianceOpinion = {
+          rfc,
+          status: 'positive',
+          issued_at: extractedAt.slice(0, 10),
+          valid_until: null,
+          pdf_url: null,
+          ...taxpayer.complianceOpinion,
+          extracted_at: extractedAt,
+        };
+      } else if (type === 'csf') {
+        taxpayer.taxStatus = {
+          rfc,
+          name: taxpayer.name,
+          status: 'ACTIVO',
+          ...taxpayer.taxStatus,
+          extracted_at: extractedAt,
+        };
+      }
+    }
+
+    const webhook = options.webhook;
+    if (!webhook) {
+      return;
+    }
+    for (const rfc of rfcs) {
+      setTimeout(() => {
+        const payload = JSON.stringify({
+          rfc,
+          extraction_type: type,
+          task_id: taskId,
+          status: 'completed',
+          completed_at: new Date().toISOString(),
+        });
+        const timestamp = String(Math.floor(Date.now() / 1000));
+        fetch(webhook.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Taxo-Timestamp': timestamp,
+            'X-Taxo-Signature': `sha256=${signWebhookPayload(webhook.secret, timestamp, payload)}`,
+          },
+          body: payload,
+        }).catch((error) => {
+          logger.warn(`Mock webhook delivery to ${webhook.url} failed:`, error);
+        });
+      }, webhook.delayMs ?? 1_000).unref();
+    }
+  };
+
+  const queued = (type: ExtractionType, rfcs: string[], res: Response) => {
+    const taskId = nextTaskId++;
+    completeExtraction(type, rfcs, taskId);
+    res.status(202).json({
+      success: true,
+      message: `Extraction queued for ${rfcs.length} taxpayer(s)`,
+      task_id: taskId,
+      count: rfcs.length,
+    });
+  };
+
+  // ============================================
+  // Extractions (Compliance Opinion and Tax Status)
+  // ============================================
+
+  for (const type of ['oc', 'csf'] as const) {
+    app.post(`/api/extractions/${type}/client`, (req: Request, res: Response) => {
+      const body = parseBody(rfcBody, req, res);
+      const taxpayer = body && findTaxpayer(body.rfc, res);
+      if (taxpayer) {
+        queued(type, [taxpayer.rfc], res);
+      }
+    });
+
+    app.post(`/api/extractions/${type}/accountant`, (req: Request, res: Response) => {
+      const body = parseBody(accountantBody, req, res);
+      const rfcs = body && accountantClients(String(body.accountant_id), res);
+      if (rfcs) {
+        queued(type, rfcs, res);
+      }
+    });
+
+    app.post(`/api/extractions/${type}/extract-all`, (_req: Request, res: Response) => {
+      queued(type, Object.keys(data.taxpayers), res);
+    });
+
+    app.get(`/api/extractions/${type}/client/:rfc`, (req: Request, res: Response) => {
+      const taxpayer = findTaxpayer(req.params.rfc, res);
+      if (!taxpayer) {
+        return;
+      }
+      const document = type === 'oc' ? taxpayer.complianceOpinion : taxpayer.taxStatus;
+      if (!document) {
+        res.status(404).json({ message: `No ${type} extraction found for ${taxpayer.rfc}` });
+        return;
+      }
+      res.json(document);
+    });
+  }
+
+  // ============================================
+  // CFDI Extractions
+  // ============================================
+
+  app.post('/api/extractions/cfdi/client', (req: Request, res: Response) => {
+    const body = parseBody(cfdiClientBody, req, res);
+    const taxpayer = body && findTaxpayer(body.rfc, res);
+    if (taxpayer) {
+      queued('cfdi', [taxpayer.rfc], res);
+    }
+  });
+
+  app.post('/api/extractions/cfdi/accountant', (req: Request, res: Response) => {
+    const body = parseBody(cfdiAccountantBody, req, res);
+    const rfcs = body && accountantClients(String(body.accountant_id), res);
+    if (rfcs) {
+      queued('cfdi', rfcs, res);
+    }
+  });
+
+  // ============================================
+  // Reports, Contacts, Invoices and Categories
+  // ============================================
+
+  app.get('/api/v1/tax-reports/monthly/:rfc/:year/:month', (req: Request, res: Response) => {
+    const taxpayer = findTaxpayer(req.params.rfc, res);
+    if (!taxpayer) {
+      return;
+    }
+    const period = `${req.params.year}-${req.params.month.padStart(2, '0')}`;
+    const report = taxpayer.monthlyReports[period];
+    if (!report) {
+      res.status(404).json({ message: `No monthly report for ${taxpayer.rfc} in ${period}` });
+      return;
+    }
+    res.json(report);
+  });
+
+  app.get('/api/v1/contacts/:rfc', (req: Request, res: Response) => {
+    const taxpayer = findTaxpayer(req.params.rfc, res);
+    if (!taxpayer) {
+      return;
+    }
+
+    // Everyone the taxpayer invoiced is a client; everyone who invoiced it, a supplier
+    const contacts = new Map<string, { rfc: string; name: string; type: string }>();
+    for (const invoice of data.invoices) {
+      if (invoice.issuer_rfc === taxpayer.rfc) {
+        contacts.set(invoice.receiver_rfc, {
+          rfc: invoice.receiver_rfc,
+          name: invoice.receiver_name,
+          type: 'client',
+        });
+      } else if (invoice.receiver_rfc === taxpayer.rfc) {
+        contacts.set(invoice.issuer_rfc, {
+          rfc: invoice.issuer_rfc,
+          name: invoice.issuer_name,
+          type: 'supplier',
+        });
+      }
+    }
+    res.json({ data: [...contacts.values()] });
+  });
+
+  app.get('/api/v1/invoices/:rfc', (req: Request, res: Response) => {
+    const taxpayer = findTaxpayer(req.params.rfc, res);
+    if (!taxpayer) {
+      return;
+    }
+    const invoices = data.invoices.filter(
+      (invoice) =>
+        (invoice.issuer_rfc === taxpayer.rfc || invoice.receiver_rfc === taxpayer.rfc) &&
+        matchesInvoiceFilters(invoice, taxpayer.rfc, req.query)
+    );
+    res.json({ data: invoices });
+  });
+
+  app.get('/api/categorization/categories', (_req: Request, res: Response) => {
+    res.json({ data: data.categories });
+  });
+
+  // ============================================
+  // Taxpayer Management
+  // ============================================
+
+  app.post('/api/v1/accountant/:id/clients', (req: Request, res: Response) => {
+    if (!data.accountants[req.params.id]) {
+      res.status(404).json({ message: `Accountant ${req.params.id} not found` });
+      return;
+    }
+    const body = parseBody(createTaxpayerBody, req, res);
+    if (!body) {
+      return;
+    }
+
+    const validation = validateRfc(body.rfc);
+    if (!validation.valid) {
+      res.status(422).json({ message: `Invalid RFC ${validation.rfc}`, errors: validation.errors });
+      return;
+    }
+    if (data.taxpayers[validation.rfc]) {
+      res.status(409).json({ message: `Taxpayer ${validation.rfc} is already registered` });
+      return;
+    }
+
+    data.taxpayers[validation.rfc] = {
+      rfc: validation.rfc,
+      name: validation.rfc,
+      accountantId: req.params.id,
+      monthlyReports: {},
+    };
+    res.status(201).json({
+      data: { id: Object.keys(data.taxpayers).length, rfc: validation.rfc },
+    });
+  });
+
+  app.use((req: Request, res: Response) => {
+    res.status(404).json({ message: `No mock route for ${req.method} ${req.path}` });
+  });
+
+  return app;
+}
+
+/** Starts the mock on the loopback interface and resolves with its base URL. */
+export function startMockTaxoServer(
+  options: MockTaxoOptions & { port?: number } = {}
+): Promise<{ url: string; close: () => Promise<void> }> {
+  const app = createMockTaxoApp(options);
+
+  return new Promise((resolve, reject) => {
+    const server = app.listen(options.port ?? 0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        close: () =>
+          new Promise<void>((done, fail) => server.close((error) => (error ? fail(error) : done()))),
+      });
+    });
+    server.on('error', reject);
+  });
+}
@@ -0,0 +1,342 @@
+// ============================================
+// Mock Taxo Fixtures
+// ============================================
+
+// RFCs below are SAT test RFCs or pass the check digit, so the tools accept them
+
+export const MOCK_TOKEN = 'mock-taxo-token';
+export const MOCK_ACCOUNTANT_ID = '1001';
+
+export interface MockInvoice {
+  uuid: string;
+  date: string;
+  /** CFDI type: I (ingreso), E (egreso) or P (pago). */
+  type: 'I' | 'E' | 'P';
+  status: 'vigente' | 'cancelado';
+  issuer_rfc: string;
+  issuer_name: string;
+  receiver_rfc: string;
+  receiver_name: string;
+  subtotal: number | string;
+  iva: number | string;
+  iva_withheld?: number | string;
+  isr_withheld?: number | string;
+  total: number | string;
+  currency: string;
+  /** PUE (paid in one payment) or PPD (paid in installments); absent on payment CFDIs. */
+  payment_type?: 'PUE' | 'PPD';
+  payment_way?: string;
+  category: string | null;
+  /** Invoices settled by a payment CFDI, or the invoice a credit note applies to. */
+  related_documents?: {
+    uuid: string;
+    installment?: number;
+    paid_amount?: number;
+    iva?: number;
+    iva_withheld?: number;
+  }[];
+}
+
+export interface MockTaxpayer {
+  rfc: string;
+  name: string;
+  accountantId: string;
+  complianceOpinion?: Record<string, unknown>;
+  taxStatus?: Record<string, unknown>;
+  /** Keyed by `YYYY-MM`. */
+  monthlyReports: Record<string, Record<string, unknown>>;
+}
+
+export interface MockTaxoData {
+  accountants: Record<string, { name: string }>;
+  taxpayers: Record<string, MockTaxpayer>;
+  invoices: MockInvoice[];
+  categories: { id: number; name: string }[];
+}
+
+const EKU = { rfc: 'EKU9003173C9', name: 'ESCUELA KEMPER URGATE SA DE CV' };
+const CACX = { rfc: 'CACX7605101P8', name: 'XOCHILT CASAS CHAVEZ' };
+const IIA = { rfc: 'IIA040805DZ4', name: 'INDISTRIA ILUMINADORA DE ALMACENES SA DE CV' };
+const TME = { rfc: 'TME960709LR2', name: 'TELEFONOS DE MEXICO SAB DE CV' };
+const XOJI = { rfc: 'XOJI740919U48', name: 'INGRID XODAR JIMENEZ' };
+const HYE = { rfc: 'H&E951128469', name: 'HERNANDEZ & ESTRADA SC' };
+const PUBLIC = { rfc: 'XAXX010101000', name: 'PUBLICO EN GENERAL' };
+
+type Party = { rfc: string; name: string };
+
+type InvoiceFields = Omit<
+  MockInvoice,
+  'issuer_rfc' | 'issuer_name' | 'receiver_rfc' | 'receiver_name' | 'currency' | 'status'
+> &
+  Partial<Pick<MockInvoice, 'status'>>;
+
+function invoice(issuer: Party, receiver: Party, fields: InvoiceFields): MockInvoice {
+  return {
+    status: 'vigente',
+    currency: 'MXN',
+    issuer_rfc: issuer.rfc,
+    issuer_name: issuer.name,
+    receiver_rfc: receiver.rfc,
+    receiver_name: receiver.name,
+    ...fields,
+  };
+}
+
+const INVOICES: MockInvoice[] = [
+  // Issued by EKU in March 2025
+  invoice(EKU, IIA, {
+    uuid: '5FB2822E-396D-4725-8521-CDC4BDD20CCF',
+    date: '2025-03-05T10:14:22',
+    type: 'I',
+    subtotal: 10000,
+    iva: 1600,
+    total: 11600,
+    payment_type: 'PUE',
+    payment_way: '03',
+    category: 'Ventas',
+  }),
+  invoice(EKU, XOJI, {
+    uuid: '0B1A3E0C-7F9D-4C55-9D1E-2A7C8E4F6B10',
+    date: '2025-03-12T16:40:03',
+    type: 'I',
+    subtotal: 25000,
+    iva: 4000,
+    total: 29000,
+    payment_type: 'PPD',
+    payment_way: '99',
+    category: 'Ventas',
+  }),
+  invoice(EKU, PUBLIC, {
+    uuid: 'C3D4E5F6-1A2B-4C3D-8E9F-0A1B2C3D4E5F',
+    date: '2025-03-20T09:02:51',
+    type: 'I',
+    subtotal: 1500,
+    iva: 240,
+    total: 1740,
+    payment_type: 'PUE',
+    payment_way: '01',
+    category: 'Ventas',
+  }),
+  invoice(EKU, IIA, {
+    uuid: '9A8B7C6D-5E4F-4A3B-9C2D-1E0F9A8B7C6D',
+    date: '2025-03-22T12:30:00',
+    type: 'I',
+    status: 'cancelado',
+    subtotal: 5000,
+    iva: 800,
+    total: 5800,
+    payment_type: 'PUE',
+    payment_way: '03',
+    category: 'Ventas',
+  }),
+  invoice(EKU, IIA, {
+    uuid: 'E1F2A3B4-C5D6-4E7F-8A9B-0C1D2E3F4A5B',
+    date: '2025-03-28T17:45:10',
+    type: 'E',
+    subtotal: 1000,
+    iva: 160,
+    total: 1160,
+    payment_type: 'PUE',
+    payment_way: '03',
+    category: 'Devoluciones',
+    related_documents: [{ uuid: '5FB2822E-396D-4725-8521-CDC4BDD20CCF' }],
+  }),
+  // First installment of the March PPD invoice
+  invoice(EKU, XOJI, {
+    uuid: '7D6C5B4A-3F2E-4D1C-8B0A-9F8E7D6C5B4A',
+    date: '2025-04-10T11:00:00',
+    type: 'P',
+    subtotal: 0,
+    iva: 0,
+    total: 0,
+    category: null,
+    related_documents: [
+      {
+        uuid: '0B1A3E0C-7F9D-4C55-9D1E-2A7C8E4F6B10',
+        installment: 1,
+        paid_amount: 14500,
+        iva: 2000,
+      },
+    ],
+  }),
+
+  // Received by EKU in March 2025
+  invoice(TME, EKU, {
+    uuid: 'A1B2C3D4-E5F6-4A7B-8C9D-0E1F2A3B4C5D',
+    date: '2025-03-08T08:15:37',
+    type: 'I',
+    subtotal: '2000.00',
+    iva: '320.00',
+    total: '2320.00',
+    payment_type: 'PUE',
+    payment_way: '04',
+    category: 'Telefonía',
+  }),
+  invoice(HYE, EKU, {
+    uuid: 'F0E1D2C3-B4A5-4968-8776-A5B4C3D2E1F0',
+    date: '2025-03-15T13:20:00',
+    type: 'I',
+    subtotal: '8000.00',
+    iva: '1280.00',
+    iva_withheld: '853.33',
+    isr_withheld: '800.00',
+    total: '7626.67',
+    payment_type: 'PPD',
+    payment_way: '99',
+    category: 'Honorarios',
+  }),
+  invoice(HYE, EKU, {
+    uuid: '2B3C4D5E-6F7A-4B8C-9D0E-1F2A3B4C5D6E',
+    date: '2025-03-30T10:05:00',
+    type: 'P',
+    subtotal: 0,
+    iva: 0,
+    total: 0,
+    category: null,
+    related_documents: [
+      {
+        uuid: 'F0E1D2C3-B4A5-4968-8776-A5B4C3D2E1F0',
+        installment: 1,
+        paid_amount: 7626.67,
+        iva: 1280,
+        iva_withheld: 853.33,
+      },
+    ],
+  }),
+
+  // CACX, a persona física with a few invoices
+  invoice(CACX, EKU, {
+    uuid: '4E5F6A7B-8C9D-4E0F-9A1B-2C3D4E5F6A7B',
+    date: '2025-03-18T18:00:00',
+    type: 'I',
+    subtotal: '6000.00',
+    iva: '960.00',
+    iva_withheld: '640.00',
+    isr_withheld: '600.00',
+    total: '5720.00',
+    payment_type: 'PUE',
+    payment_way: '03',
+    category: 'Honorarios',
+  }),
+  invoice(TME, CACX, {
+    uuid: '8F9A0B1C-2D3E-4F4A-8B5C-6D7E8F9A0B1C',
+    date: '2025-03-09T07:45:12',
+    type: 'I',
+    subtotal: 500,
+    iva: 80,
+    total: 580,
+    payment_type: 'PUE',
+    payment_way: '04',
+    category: 'Telefonía',
+  }),
+];
+
+const TAXPAYERS: Record<string, MockTaxpayer> = {
+  [EKU.rfc]: {
+    ...EKU,
+    accountantId: MOCK_ACCOUNTANT_ID,
+    complianceOpinion: {
+      rfc: EKU.rfc,
+      status: 'positive',
+      folio: '25NA1234567',
+      issued_at: '2025-04-01',
+      valid_until: '2025-04-30',
+      extracted_at: '2025-04-01T09:00:00Z',
+      pdf_url: null,
+    },
+    taxStatus: {
+      rfc: EKU.rfc,
+      name: EKU.name,
+      curp: null,
+      status: 'ACTIVO',
+      postal_code: '06300',
+      tax_regimes: [
+        { code: '601', description: 'General de Ley Personas Morales', start_date: '1990-03-17' },
+      ],
+      economic_activities: [
+        {
+          order: 1,
+          description: 'Escuelas de educación primaria del sector privado',
+          percentage: 100,
+        },
+      ],
+      obligations: [
+        { description: 'Declaración de proveedores de IVA', due: 'mensual' },
+        { description: 'Pago definitivo mensual de IVA', due: 'mensual' },
+      ],
+      extracted_at: '2025-04-01T09:00:00Z',
+    },
+    monthlyReports: {
+      '2025-03': {
+        rfc: EKU.rfc,
+        year: '2025',
+        month: '03',
+        isr: { income: 10500, deductions: 16000, withheld: 1400 },
+        iva: {
+          collected: 1680,
+          creditable: 2560,
+          withheld_from_suppliers: 1493.33,
+          payable: 0,
+          in_favor: 880,
+        },
+      },
+      // Misses the April payment complement, so it disagrees with the invoices
+      '2025-04': {
+        rfc: EKU.rfc,
+        year: '2025',
+        month: '04',
+        isr: { income: 12500, deductions: 0, withheld: 0 },
+        iva: { collected: 0, creditable: 0, withheld_from_suppliers: 0, payable: 0 },
+      },
+    },
+  },
+  [CACX.rfc]: {
+    ...CACX,
+    accountantId: MOCK_ACCOUNTANT_ID,
+    complianceOpinion: {
+      rfc: CACX.rfc,
+      status: 'negative',
+      folio: '25NB7654321',
+      issued_at: '2025-04-02',
+      valid_until: null,
+      extracted_at: '2025-04-02T09:00:00Z',
+      pdf_url: null,
+    },
+    // No tax status extracted yet: get_tax_status answers 404 until one is requested
+    monthlyReports: {
+      '2025-03': {
+        data: {
+          rfc: CACX.rfc,
+          year: 2025,
+          month: 3,
+          isr: { income: '6000.00', deductions: '500.00', withheld: '600.00' },
+          iva: {
+            collected: '960.00',
+            creditable: '80.00',
+            withheld_by_customers: '640.00',
+            payable: '240.00',
+          },
+        },
+      },
+    },
+  },
+};
+
+const CATEGORIES = [
+  { id: 1, name: 'Ventas' },
+  { id: 2, name: 'Devoluciones' },
+  { id: 3, name: 'Honorarios' },
+  { id: 4, name: 'Telefonía' },
+  { id: 5, name: 'Arrendamiento' },
+  { id: 6, name: 'Combustibles' },
+];
+
+/** Fresh copy of the fixture data; every mock app mutates its own. */
+export function createFixtures(): MockTaxoData {
+  return structuredClone({
+    accountants: { [MOCK_ACCOUNTANT_ID]: { name: 'Despacho Contable Demo' } },
+    taxpayers: TAXPAYERS,
+    invoices: INVOICES,
+    categories: CATEGORIES,
+  });
+}
@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+
+import { logger } from '../logger.js';
+import { startMockTaxoServer } from './app.js';
+import { MOCK_ACCOUNTANT_ID, MOCK_TOKEN } from './fixtures.js';
+
+function readInt(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`${name} must be an integer, got "${value}"`);
+  }
+  return parseInt(value, 10);
+}
+
+async function main() {
+  const webhookUrl = process.env.TAXO_MOCK_WEBHOOK_URL;
+  const webhookSecret = process.env.TAXO_MOCK_WEBHOOK_SECRET;
+  if (webhookUrl && !webhookSecret) {
+    throw new Error('TAXO_MOCK_WEBHOOK_SECRET is required with TAXO_MOCK_WEBHOOK_URL');
+  }
+
+  const token = process.env.TAXO_MOCK_TOKEN || MOCK_TOKEN;
+  const { url } = await startMockTaxoServer({
+    port: readInt('TAXO_MOCK_PORT') ?? 4010,
+    token,
+    latencyMs: readInt('TAXO_MOCK_LATENCY_MS'),
+    webhook:
+      webhookUrl && webhookSecret
+        ? { url: webhookUrl, secret: webhookSecret, delayMs: readInt('TAXO_MOCK_WEBHOOK_DELAY_MS') }
+        : undefined,
+  });
+
+  logger.info(`Mock Taxo API running on ${url}`);
+  logger.info(`Token: ${token}, accountant ID: ${MOCK_ACCOUNTANT_ID}`);
+  logger.info(`Use it with TAXO_MX_APP_BASE_URL=${url} TAXO_MX_DEMO_BASE_URL=${url}`);
+}
+
+main().catch((error) => {
+  logger.error('Fatal error:', error);
+  process.exit(1);
+});
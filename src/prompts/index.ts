@@ -0,0 +1,166 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import { findTool, isToolEnabled, ToolPolicy } from '../tools/index.js';
+import { accountantIdField, rfcField } from '../tools/types.js';
+
+// ============================================
+// Prompt Definitions
+// ============================================
+
+type PromptArgs = z.ZodObject<Record<string, z.ZodTypeAny>>;
+
+interface PromptDefinition<S extends PromptArgs = PromptArgs> {
+  name: string;
+  description: string;
+  arguments: S;
+  /** Tools the prompt tells the model to call; the prompt is hidden when the policy hides any. */
+  tools: string[];
+  // Method syntax so prompts with specific arguments still fit in the PROMPTS list
+  build(args: z.infer<S>): string;
+}
+
+function definePrompt<S extends PromptArgs>(
+  definition: PromptDefinition<S>
+): PromptDefinition<S> {
+  return definition;
+}
+
+const yearArg = z.string().regex(/^\d{4}$/, 'Year must be YYYY').describe('Year (e.g., "2025")');
+const monthArg = z
+  .string()
+  .regex(/^(0[1-9]|1[0-2])$/, 'Month must be MM')
+  .describe('Month in MM format (e.g., "04" for April)');
+
+export const PROMPTS: PromptDefinition<PromptArgs>[] = [
+  definePrompt({
+    name: 'monthly_close',
+    description: 'Guides the monthly close for a taxpayer: tax report, invoices and compliance.',
+    arguments: z.object({ rfc: rfcField, year: yearArg, month: monthArg }),
+    tools: ['get_monthly_tax_report', 'get_invoices', 'get_compliance_opinion'],
+    build: ({ rfc, year, month }) =>
+      [
+        `Prepare the monthly close for taxpayer ${rfc} for ${year}-${month}.`,
+        '',
+        '1. Call `get_monthly_tax_report` for the period and summarise ISR, IVA and retentions payable.',
+        `2. Call \`get_invoices\` with year "${year}" and month "${month}" (fields uuid, date, issuer_name, receiver_name, total, status, category) and page through all results.`,
+        '3. Flag cancelled invoices, uncategorised invoices and anything that looks out of place versus the report.',
+        '4. Call `get_compliance_opinion` and note whether it is positive and still valid.',
+        '5. Finish with a short checklist of what the accountant must resolve before filing.',
+      ].join('\n'),
+  }),
+  definePrompt({
+    name: 'client_health_check',
+    description:
+      "Reviews a taxpayer's standing with SAT: compliance opinion, tax status and recent activity.",
+    arguments: z.object({ rfc: rfcField }),
+    tools: [
+      'get_compliance_opinion',
+      'extract_compliance_opinion',
+      'wait_for_extraction',
+      'get_tax_status',
+      'get_invoices',
+    ],
+    build: ({ rfc }) =>
+      [
+        `Run a health check for taxpayer ${rfc}.`,
+        '',
+        '1. Call `get_compliance_opinion`. If it is missing or older than 30 days, call `extract_compliance_opinion` and `wait_for_extraction`, then read it again.',
+        '2. Call `get_tax_status` and summarise the fiscal regimes, obligations and registered address.',
+        '3. Call `get_invoices` for the current year with fields uuid, date, total and status to gauge recent activity.',
+        '4. Report any negative opinion, suspended status or missing obligations, with a recommended next step for each.',
+      ].join('\n'),
+  }),
+  definePrompt({
+    name: 'onboard_taxpayer',
+    description:
+      'Walks through registering a new taxpayer under an accountant and running the first extractions.',
+    arguments: z.object({ accountantId: accountantIdField }),
+    tools: [
+      'validate_rfc',
+      'request_taxpayer_registration',
+      'get_taxpayer_registration',
+      'extract_compliance_opinion',
+      'extract_tax_status',
+      'extract_cfdi',
+      'list_extractions',
+    ],
+    build: ({ accountantId }) =>
+      [
+        `Onboard a new taxpayer for accountant ${accountantId}.`,
+        '',
+        "1. Ask for the taxpayer's RFC and check it with `validate_rfc` before continuing.",
+        '2. Call `request_taxpayer_registration` and give the accountant the link to enter the CIEC. Never ask for the CIEC in the conversation.',
+        '3. Use `get_taxpayer_registration` to confirm the registration was completed.',
+        '4. Request the first documents: `extract_compliance_opinion`, `extract_tax_status` and `extract_cfdi` (extractionType "all") for the current year.',
+        '5. Use `list_extractions` to confirm the jobs were created and tell the accountant when to check back.',
+      ].join('\n'),
+  }),
+  definePrompt({
+    name: 'pre_audit_review',
+    description:
+      'Reviews a fiscal year ahead of a SAT audit: monthly reports, invoices and compliance.',
+    arguments: z.object({ rfc: rfcField, year: yearArg }),
+    tools: ['get_monthly_tax_report', 'get_invoices', 'get_compliance_opinion', 'get_tax_status'],
+    build: ({ rfc, year }) =>
+      [
+        `Prepare a pre-audit review of taxpayer ${rfc} for fiscal year ${year}.`,
+        '',
+        '1. Call `get_monthly_tax_report` for each month of the year and tabulate ISR and IVA per month.',
+        '2. Call `get_invoices` per month (fields uuid, date, issuer_name, total, status, payment_type) and look for cancelled invoices, PPD invoices without payment and unusual amounts.',
+        '3. Call `get_compliance_opinion` and `get_tax_status` to confirm the taxpayer is in good standing.',
+        '4. Summarise the risks an auditor would likely raise, ordered by severity.',
+      ].join('\n'),
+  }),
+];
+
+function isPromptEnabled(prompt: PromptDefinition, policy: ToolPolicy): boolean {
+  return prompt.tools.every((name) => {
+    const tool = findTool(name);
+    return tool !== undefined && isToolEnabled(tool, policy);
+  });
+}
+
+export function listPrompts(policy: ToolPolicy = {}) {
+  return PROMPTS.filter((prompt) => isPromptEnabled(prompt, policy)).map((prompt) => ({
+    name: prompt.name,
+    description: prompt.description,
+    arguments: Object.entries(prompt.arguments.shape).map(([name, field]) => ({
+      name,
+      description: (field as z.ZodTypeAny).description,
+      required: !(field as z.ZodTypeAny).isOptional(),
+    })),
+  }));
+}
+
+export function getPrompt(
+  name: string,
+  args: Record<string, string> = {},
+  policy: ToolPolicy = {}
+) {
+  const prompt = PROMPTS.find((candidate) => candidate.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  if (!isPromptEnabled(prompt, policy)) {
+    throw new McpError(ErrorCode.InvalidRequest, `Prompt ${name} is disabled on this server`);
+  }
+
+  const parsed = prompt.arguments.safeParse(args);
+  if (!parsed.success) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      parsed.error.issues.map((issue: z.ZodIssue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+    );
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user' as const,
+        content: { type: 'text' as const, text: prompt.build(parsed.data) },
+      },
+    ],
+  };
+}
@@ -0,0 +1,27 @@
+import { AddressInfo } from 'node:net';
+import express from 'express';
+
+import { createRegistrationRouter } from './router.js';
+import { TaxpayerRegistrationService } from './service.js';
+
+/**
+ * Serves the registration form on the loopback interface for the stdio
+ * server, which has no HTTP app of its own. Started on first use.
+ */
+export function startLocalFormServer(
+  service: TaxpayerRegistrationService,
+  port = 0
+): Promise<string> {
+  const app = express();
+  app.use(createRegistrationRouter(service));
+
+  return new Promise((resolve, reject) => {
+    const server = app.listen(port, '127.0.0.1', () => {
+      const { port: boundPort } = server.address() as AddressInfo;
+      resolve(`http://127.0.0.1:${boundPort}`);
+    });
+    server.on('error', reject);
+    // Never keep the stdio process alive just for the form
+    server.unref();
+  });
+}
@@ -0,0 +1,78 @@
+import express, { Request, Response, Router } from 'express';
+
+import { TaxoMxApiError } from '../api/client.js';
+import { escapeHtml, renderPage } from '../http/html.js';
+import { REGISTRATION_PATH, TaxpayerRegistration, TaxpayerRegistrationService } from './service.js';
+
+function renderForm(secret: string, registration: TaxpayerRegistration, error?: string): string {
+  return renderPage(
+    'Register taxpayer',
+    `<p>Enter the CIEC for <strong>${escapeHtml(registration.rfc)}</strong> to register it under accountant ${escapeHtml(registration.accountantId)}. The password is sent to Taxo and is not shown to the assistant.</p>
+  ${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+  <form method="post" action="${REGISTRATION_PATH}/${escapeHtml(secret)}">
+    <label for="ciec">CIEC</label>
+    <input id="ciec" name="ciec" type="password" autocomplete="off" required>
+    <button type="submit">Register</button>
+  </form>`
+  );
+}
+
+const unavailable = renderPage(
+  'Link unavailable',
+  '<p>This registration link is invalid, expired or already used. Ask the assistant for a new one.</p>'
+);
+
+export function createRegistrationRouter(service: TaxpayerRegistrationService): Router {
+  const router = Router();
+
+  // Forms carry secrets in the URL; keep them out of caches
+  router.use(REGISTRATION_PATH, (_req: Request, res: Response, next) => {
+    res.header('Cache-Control', 'no-store');
+    next();
+  });
+
+  router.get(`${REGISTRATION_PATH}/:secret`, (req: Request, res: Response) => {
+    const registration = service.findOpen(req.params.secret);
+    if (!registration) {
+      res.status(404).type('html').send(unavailable);
+      return;
+    }
+    res.type('html').send(renderForm(req.params.secret, registration));
+  });
+
+  router.post(
+    `${REGISTRATION_PATH}/:secret`,
+    express.urlencoded({ extended: false }),
+    async (req: Request, res: Response) => {
+      const { secret } = req.params;
+      const registration = service.findOpen(secret);
+      if (!registration) {
+        res.status(404).type('html').send(unavailable);
+        return;
+      }
+
+      const ciec = String(req.body?.ciec ?? '');
+      try {
+        await service.complete(secret, ciec);
+      } catch (error) {
+        const message =
+          error instanceof TaxoMxApiError
+            ? `Taxo rejected the registration (${error.statusCode}). Check the CIEC and try again.`
+            : 'The registration could not be completed. Try again in a moment.';
+        res.status(400).type('html').send(renderForm(secret, registration, message));
+        return;
+      }
+
+      res
+        .type('html')
+        .send(
+          renderPage(
+            'Taxpayer registered',
+            `<p>${escapeHtml(registration.rfc)} was registered. You can close this window and return to the assistant.</p>`
+          )
+        );
+    }
+  );
+
+  return router;
+}
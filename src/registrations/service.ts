@@ -0,0 +1,141 @@
+import { randomBytes, randomUUID } from 'node:crypto';
+
+import { TaxoMxApiClient } from '../api/client.js';
+
+export type RegistrationStatus = 'pending' | 'completed' | 'expired';
+
+export interface TaxpayerRegistration {
+  id: string;
+  accountantId: string;
+  rfc: string;
+  status: RegistrationStatus;
+  createdAt: string;
+  expiresAt: string;
+  completedAt?: string;
+  lastError?: string;
+  result?: unknown;
+}
+
+interface RegistrationEntry {
+  registration: TaxpayerRegistration;
+  /** Secret part of the form URL; never returned once the link is handed out. */
+  secret: string;
+  client: TaxoMxApiClient;
+}
+
+export interface TaxpayerRegistrationServiceOptions {
+  /** Resolves the public base URL serving the registration form. */
+  getBaseUrl: () => Promise<string>;
+  ttlSeconds?: number;
+}
+
+export const REGISTRATION_PATH = '/taxpayer-registration';
+
+/**
+ * One-time links where an accountant types a taxpayer's CIEC directly into a
+ * form served by this server, so the SAT password never passes through the
+ * model. The CIEC is forwarded to Taxo and never stored.
+ */
+export class TaxpayerRegistrationService {
+  private entries = new Map<string, RegistrationEntry>();
+  private bySecret = new Map<string, string>();
+  private ttlMs: number;
+
+  constructor(private options: TaxpayerRegistrationServiceOptions) {
+    this.ttlMs = (options.ttlSeconds ?? 900) * 1000;
+  }
+
+  async create(
+    client: TaxoMxApiClient,
+    accountantId: string,
+    rfc: string
+  ): Promise<TaxpayerRegistration & { url: string }> {
+    this.prune();
+
+    const now = Date.now();
+    const secret = randomBytes(24).toString('base64url');
+    const registration: TaxpayerRegistration = {
+      id: randomUUID(),
+      accountantId,
+      rfc,
+      status: 'pending',
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttlMs).toISOString(),
+    };
+
+    this.entries.set(registration.id, { registration, secret, client });
+    this.bySecret.set(secret, registration.id);
+
+    const baseUrl = await this.options.getBaseUrl();
+    return { ...registration, url: `${baseUrl}${REGISTRATION_PATH}/${secret}` };
+  }
+
+  get(id: string): TaxpayerRegistration | undefined {
+    const entry = this.entries.get(id);
+    if (entry) {
+      this.expireIfStale(entry);
+    }
+    return entry?.registration;
+  }
+
+  /** Returns the registration behind a form link while it can still be used. */
+  findOpen(secret: string): TaxpayerRegistration | undefined {
+    const id = this.bySecret.get(secret);
+    const entry = id ? this.entries.get(id) : undefined;
+    if (!entry) {
+      return undefined;
+    }
+    this.expireIfStale(entry);
+    return entry.registration.status === 'pending' ? entry.registration : undefined;
+  }
+
+  /**
+   * Creates the taxpayer in Taxo with the submitted CIEC. Failed attempts keep
+   * the link open so the accountant can correct a mistyped password.
+   */
+  async complete(secret: string, ciec: string): Promise<TaxpayerRegistration> {
+    const id = this.bySecret.get(secret);
+    const entry = id ? this.entries.get(id) : undefined;
+    if (!entry || !this.findOpen(secret)) {
+      throw new Error('This registration link is invalid, expired or already used.');
+    }
+
+    const { registration } = entry;
+    try {
+      registration.result = await entry.client.createTaxpayer(
+        registration.accountantId,
+        registration.rfc,
+        ciec
+      );
+    } catch (error) {
+      registration.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    }
+
+    registration.status = 'completed';
+    registration.completedAt = new Date().toISOString();
+    registration.lastError = undefined;
+    this.bySecret.delete(secret);
+    return registration;
+  }
+
+  private expireIfStale(entry: RegistrationEntry): void {
+    const { registration } = entry;
+    if (registration.status === 'pending' && Date.parse(registration.expiresAt) < Date.now()) {
+      registration.status = 'expired';
+      this.bySecret.delete(entry.secret);
+    }
+  }
+
+  // Drop records a day after they stop being usable
+  private prune(): void {
+    const cutoff = Date.now() - 24 * 60 * 60 * 1000;
+    for (const [id, entry] of this.entries) {
+      this.expireIfStale(entry);
+      const { status, expiresAt } = entry.registration;
+      if (status !== 'pending' && Date.parse(expiresAt) < cutoff) {
+        this.entries.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+import { findTool, isToolEnabled, ToolContext, ToolPolicy } from '../tools/index.js';
+import { normalizeRfc, validateRfc } from '../validation/rfc.js';
+
+// ============================================
+// Resource Definitions
+// ============================================
+
+type ResourceParams = Record<string, string>;
+
+export interface ResourceDefinition {
+  /** Fixed URI, or an RFC 6570 level 1 template such as `taxo://taxpayer/{rfc}`. */
+  uri: string;
+  name: string;
+  description: string;
+  /** Tool returning the same data; the resource is hidden whenever the tool policy hides it. */
+  tool: string;
+  read: (params: ResourceParams, context: ToolContext) => Promise<unknown>;
+}
+
+function rfcParam(params: ResourceParams): string {
+  const rfc = normalizeRfc(params.rfc);
+  const validation = validateRfc(rfc);
+  if (!validation.valid) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid RFC ${rfc}: ${validation.errors.join('; ')}`
+    );
+  }
+  return rfc;
+}
+
+export const RESOURCES: ResourceDefinition[] = [
+  {
+    uri: 'taxo://categories',
+    name: 'Invoice categories',
+    description: 'All categories defined in Taxo for invoice classification.',
+    tool: 'get_categories',
+    read: async (_params, { client }) => client.getCategories(),
+  },
+  {
+    uri: 'taxo://taxpayer/{rfc}/compliance-opinion',
+    name: 'Compliance opinion',
+    description: 'Latest SAT compliance opinion (Opinión de Cumplimiento) for a taxpayer.',
+    tool: 'get_compliance_opinion',
+    read: async (params, { client }) => client.getComplianceOpinion(rfcParam(params)),
+  },
+  {
+    uri: 'taxo://taxpayer/{rfc}/tax-status',
+    name: 'Tax status certificate',
+    description: 'Latest tax status certificate (Constancia de Situación Fiscal) for a taxpayer.',
+    tool: 'get_tax_status',
+    read: async (params, { client }) => client.getTaxStatus(rfcParam(params)),
+  },
+  {
+    uri: 'taxo://taxpayer/{rfc}/tax-report/{year}/{month}',
+    name: 'Monthly tax report',
+    description: 'Monthly tax report (ISR, IVA) for a taxpayer. Month in MM format.',
+    tool: 'get_monthly_tax_report',
+    read: async (params, { client }) =>
+      client.getMonthlyTaxReport(rfcParam(params), params.year, params.month),
+  },
+  {
+    uri: 'taxo://taxpayer/{rfc}/contacts',
+    name: 'Contacts',
+    description: 'Clients and suppliers associated with a taxpayer.',
+    tool: 'get_contacts',
+    read: async (params, { client }) => client.getContacts(rfcParam(params)),
+  },
+];
+
+const isTemplate = (resource: ResourceDefinition) => resource.uri.includes('{');
+
+function isResourceEnabled(resource: ResourceDefinition, policy: ToolPolicy): boolean {
+  const tool = findTool(resource.tool);
+  return tool !== undefined && isToolEnabled(tool, policy);
+}
+
+function matchTemplate(template: string, uri: string): ResourceParams | undefined {
+  const names: string[] = [];
+  const pattern = template
+    .split(/(\{\w+\})/)
+    .map((part) => {
+      const variable = /^\{(\w+)\}$/.exec(part);
+      if (variable) {
+        names.push(variable[1]);
+        return '([^/]+)';
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  const match = new RegExp(`^${pattern}$`).exec(uri);
+  if (!match) {
+    return undefined;
+  }
+  return Object.fromEntries(names.map((name, i) => [name, decodeURIComponent(match[i + 1])]));
+}
+
+export function listResources(policy: ToolPolicy = {}) {
+  return RESOURCES.filter(
+    (resource) => !isTemplate(resource) && isResourceEnabled(resource, policy)
+  ).map((resource) => ({
+    uri: resource.uri,
+    name: resource.name,
+    description: resource.description,
+    mimeType: 'application/json',
+  }));
+}
+
+export function listResourceTemplates(policy: ToolPolicy = {}) {
+  return RESOURCES.filter(
+    (resource) => isTemplate(resource) && isResourceEnabled(resource, policy)
+  ).map((resource) => ({
+    uriTemplate: resource.uri,
+    name: resource.name,
+    description: resource.description,
+    mimeType: 'application/json',
+  }));
+}
+
+export async function readResource(uri: string, context: ToolContext, policy: ToolPolicy = {}) {
+  for (const resource of RESOURCES) {
+    const params = isTemplate(resource) ? matchTemplate(resource.uri, uri) : undefined;
+    if (resource.uri === uri || params) {
+      if (!isResourceEnabled(resource, policy)) {
+        throw new McpError(ErrorCode.InvalidRequest, `Resource ${uri} is disabled on this server`);
+      }
+      const data = await resource.read(params ?? {}, context);
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: 'application/json',
+            text: JSON.stringify(data, null, 2),
+          },
+        ],
+      };
+    }
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+}
@@ -0,0 +1,195 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { ZodError } from 'zod';
+
+import { TaxoMxApiError } from './api/client.js';
+import { AuditLog, redactArguments } from './audit/log.js';
+import { ServerMetrics } from './metrics/registry.js';
+import { getPrompt, listPrompts } from './prompts/index.js';
+import { listResources, listResourceTemplates, readResource } from './resources/index.js';
+import {
+  findTool,
+  isToolAvailable,
+  isToolEnabled,
+  listTools,
+  ToolCallExtra,
+  ToolContext,
+  ToolPolicy,
+} from './tools/index.js';
+
+/** Raised for calls to tools that do not exist or are disabled by the tool policy. */
+class ToolAccessError extends Error {
+  constructor(
+    public statusCode: 403 | 404,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ToolAccessError';
+  }
+}
+
+function toolResult(payload: unknown, isError = false) {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(payload, null, 2),
+      },
+    ],
+    ...(isError ? { isError: true } : {}),
+  };
+}
+
+function errorResult(error: unknown) {
+  if (error instanceof TaxoMxApiError) {
+    return toolResult(
+      {
+        error: true,
+        statusCode: error.statusCode,
+        message: error.message,
+        details: error.details,
+      },
+      true
+    );
+  }
+
+  if (error instanceof Error) {
+    return toolResult({ error: true, message: error.message }, true);
+  }
+
+  return toolResult({ error: true, message: 'An unknown error occurred' }, true);
+}
+
+function errorStatusCode(error: unknown): number {
+  if (error instanceof TaxoMxApiError || error instanceof ToolAccessError) {
+    return error.statusCode;
+  }
+  return error instanceof ZodError ? 400 : 500;
+}
+
+export interface ServerOptions {
+  toolPolicy?: ToolPolicy;
+  /** Records every tool call under the caller's token identity. */
+  audit?: { log: AuditLog; tokenId: string };
+  metrics?: ServerMetrics;
+}
+
+// ============================================
+// Server Factory
+// ============================================
+
+export function createServer(context: ToolContext, options: ServerOptions = {}): Server {
+  const { toolPolicy = {}, audit, metrics } = options;
+
+  const server = new Server(
+    {
+      name: 'taxo-mx-mcp',
+      version: '1.0.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+        logging: {},
+      },
+    }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: listTools(context, toolPolicy),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, requestExtra) => {
+    const { name, arguments: args } = request.params;
+    const progressToken = request.params._meta?.progressToken;
+
+    const extra: ToolCallExtra = {
+      signal: requestExtra.signal,
+      reportProgress: async (progress, total, message) => {
+        if (progressToken === undefined) {
+          return;
+        }
+        await requestExtra.sendNotification({
+          method: 'notifications/progress',
+          params: { progressToken, progress, total, message },
+        });
+      },
+    };
+
+    const startedAt = Date.now();
+    let input: unknown;
+
+    // Unknown names share one label so arbitrary input cannot grow the metric series
+    const stopMetrics = metrics?.startToolCall(findTool(name) ? name : 'unknown');
+
+    const record = (outcome: 'success' | 'error', statusCode: number, error?: unknown) => {
+      stopMetrics?.(outcome, statusCode);
+      if (!audit) {
+        return;
+      }
+      const values = (input ?? args ?? {}) as Record<string, unknown>;
+      audit.log.record({
+        timestamp: new Date(startedAt).toISOString(),
+        tokenId: audit.tokenId,
+        sessionId: requestExtra.sessionId,
+        tool: name,
+        rfc: typeof values.rfc === 'string' ? values.rfc.toUpperCase() : undefined,
+        arguments: redactArguments(args ?? {}),
+        outcome,
+        statusCode,
+        error: error instanceof Error ? error.message : undefined,
+        durationMs: Date.now() - startedAt,
+      });
+    };
+
+    try {
+      const tool = findTool(name);
+      if (!tool || !isToolAvailable(tool, context)) {
+        throw new ToolAccessError(404, `Unknown tool: ${name}`);
+      }
+      if (!isToolEnabled(tool, toolPolicy)) {
+        throw new ToolAccessError(403, `Tool ${name} is disabled on this server`);
+      }
+
+      input = tool.schema.parse(args ?? {});
+      const result = await tool.handler(input, context, extra);
+      record('success', 200);
+      return toolResult(result);
+    } catch (error) {
+      record('error', errorStatusCode(error), error);
+      return errorResult(error);
+    }
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: listResources(toolPolicy),
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: listResourceTemplates(toolPolicy),
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
+    readResource(request.params.uri, context, toolPolicy)
+  );
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: listPrompts(toolPolicy),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+    getPrompt(request.params.name, request.params.arguments, toolPolicy)
+  );
+
+  return server;
+}
@@ -0,0 +1,357 @@
+import { Invoice, MonthlyTaxReport } from '../api/models.js';
+
+// ============================================
+// Monthly IVA (Cash Basis)
+// ============================================
+
+export type IvaDirection = 'issued' | 'received';
+
+/** How a document enters the period's IVA. */
+export type IvaTreatment =
+  | 'pue'
+  | 'credit_note'
+  | 'payment'
+  | 'ppd_pending'
+  | 'cancelled'
+  | 'unresolved';
+
+export interface IvaDocument {
+  uuid: string;
+  direction: IvaDirection;
+  type?: string;
+  date?: string;
+  paymentType?: string;
+  treatment: IvaTreatment;
+  /** Signed IVA this document adds to the period; credit notes subtract. */
+  iva: number;
+  ivaWithheld: number;
+  /** IVA derived from subtotal and total because Taxo sent no IVA amount. */
+  estimated?: boolean;
+  note?: string;
+}
+
+export interface IvaFigures {
+  /** IVA trasladado actually collected from customers in the period. */
+  collected: number;
+  /** IVA customers withheld on the taxpayer's income. */
+  withheldByCustomers: number;
+  /** IVA acreditable: IVA on expenses actually paid in the period. */
+  creditable: number;
+  /** IVA the taxpayer withheld from suppliers and pays over separately. */
+  withheldFromSuppliers: number;
+  /** collected - withheldByCustomers - creditable; negative is a balance in favour. */
+  balance: number;
+  payable: number;
+  inFavor: number;
+}
+
+export type IvaFigure = keyof IvaFigures;
+
+export interface IvaReportDifference {
+  figure: IvaFigure;
+  computed: number;
+  reported: number;
+  difference: number;
+}
+
+export interface IvaReportComparison {
+  available: boolean;
+  /** Figures found in the report's `iva` section, by the names used here. */
+  reported: Partial<IvaFigures>;
+  differences: IvaReportDifference[];
+  error?: string;
+}
+
+export interface IvaSummary {
+  rfc: string;
+  period: string;
+  basis: 'cash';
+  iva: IvaFigures;
+  /** PPD invoices issued in the period; their IVA counts once payment complements arrive. */
+  pendingPpd: Record<IvaDirection, { count: number; iva: number }>;
+  excluded: { cancelled: number; unresolved: number };
+  warnings: string[];
+  documents: IvaDocument[];
+}
+
+// Key names a Taxo monthly report may use for each figure
+const REPORT_KEYS: Record<IvaFigure, string[]> = {
+  collected: ['collected', 'trasladado', 'iva_trasladado', 'iva_cobrado'],
+  withheldByCustomers: ['withheld_by_customers', 'retenido_por_clientes', 'iva_retenido_clientes'],
+  creditable: ['creditable', 'acreditable', 'iva_acreditable'],
+  withheldFromSuppliers: [
+    'withheld_from_suppliers',
+    'retenido',
+    'iva_retenido',
+    'retenciones',
+    'withheld',
+  ],
+  balance: ['balance', 'saldo'],
+  payable: ['payable', 'a_cargo', 'iva_a_cargo'],
+  inFavor: ['in_favor', 'a_favor', 'saldo_a_favor'],
+};
+
+// Sums are kept in cents so float drift never shows up as a difference
+const toCents = (value: number) => Math.round(value * 100);
+const fromCents = (cents: number) => cents / 100;
+
+function inMxn(invoice: Invoice, amount: number): number | undefined {
+  if (!invoice.currency || invoice.currency === 'MXN' || invoice.currency === 'XXX') {
+    return amount;
+  }
+  return invoice.exchange_rate === undefined ? undefined : amount * invoice.exchange_rate;
+}
+
+// IVA and IVA withheld of an invoice, estimated from its totals when Taxo omits them
+function invoiceTaxes(
+  invoice: Invoice
+): { iva: number; ivaWithheld: number; estimated: boolean } | undefined {
+  const ivaWithheld = invoice.iva_withheld ?? 0;
+  if (invoice.iva !== undefined) {
+    return { iva: invoice.iva, ivaWithheld, estimated: false };
+  }
+  if (invoice.subtotal === undefined) {
+    return undefined;
+  }
+  const iva = invoice.total - invoice.subtotal + ivaWithheld + (invoice.isr_withheld ?? 0);
+  return { iva, ivaWithheld, estimated: true };
+}
+
+/**
+ * Payment complements settling invoices that are not among `invoices` and
+ * carry no IVA of their own; the caller fetches these to prorate the IVA paid.
+ */
+export function missingRelatedInvoices(invoices: Invoice[]): string[] {
+  const known = new Set(invoices.map((invoice) => invoice.uuid.toUpperCase()));
+  const missing = new Set<string>();
+  for (const invoice of invoices) {
+    if (invoice.type?.toUpperCase() !== 'P') {
+      continue;
+    }
+    for (const related of invoice.related_documents ?? []) {
+      if (related.iva === undefined && !known.has(related.uuid.toUpperCase())) {
+        missing.add(related.uuid.toUpperCase());
+      }
+    }
+  }
+  return [...missing];
+}
+
+/**
+ * Cash-basis IVA for one month, as the SAT computes it for the monthly
+ * declaration: PUE invoices count when issued, PPD invoices only through the
+ * payment complements (type P) dated in the month, and credit notes (type E)
+ * reduce the side they were issued on. `related` supplies the original PPD
+ * invoices for complements that do not itemise IVA.
+ */
+export function computeIvaSummary(params: {
+  rfc: string;
+  year: string;
+  month: string;
+  invoices: Invoice[];
+  related?: Invoice[];
+}): IvaSummary {
+  const { rfc } = params;
+  const period = `${params.year}-${params.month.padStart(2, '0')}`;
+  const originals = new Map(
+    [...(params.related ?? []), ...params.invoices].map((invoice) => [
+      invoice.uuid.toUpperCase(),
+      invoice,
+    ])
+  );
+
+  const cents = {
+    collected: 0,
+    withheldByCustomers: 0,
+    creditable: 0,
+    withheldFromSuppliers: 0,
+  };
+  const pending = { issued: { count: 0, iva: 0 }, received: { count: 0, iva: 0 } };
+  const excluded = { cancelled: 0, unresolved: 0 };
+  const warnings: string[] = [];
+  const documents: IvaDocument[] = [];
+
+  const apply = (direction: IvaDirection, iva: number, ivaWithheld: number) => {
+    if (direction === 'issued') {
+      cents.collected += toCents(iva);
+      cents.withheldByCustomers += toCents(ivaWithheld);
+    } else {
+      cents.creditable += toCents(iva);
+      cents.withheldFromSuppliers += toCents(ivaWithheld);
+    }
+  };
+
+  for (const invoice of params.invoices) {
+    // Taxo filters by period already; the check guards against filters it ignores
+    if (invoice.date) {
+      if (!/^\d{4}-\d{2}-\d{2}/.test(invoice.date)) {
+        warnings.push(`${invoice.uuid}: unreadable date ${invoice.date}; skipped`);
+        excluded.unresolved++;
+        continue;
+      }
+      if (!invoice.date.startsWith(period)) {
+        continue;
+      }
+    }
+
+    const direction: IvaDirection | undefined =
+      invoice.issuer_rfc === rfc ? 'issued' : invoice.receiver_rfc === rfc ? 'received' : undefined;
+    if (!direction) {
+      warnings.push(`${invoice.uuid}: neither issued nor received by ${rfc}; skipped`);
+      continue;
+    }
+
+    const type = invoice.type?.toUpperCase();
+    const document: IvaDocument = {
+      uuid: invoice.uuid,
+      direction,
+      type: invoice.type,
+      date: invoice.date,
+      paymentType: invoice.payment_type,
+      treatment: 'unresolved',
+      iva: 0,
+      ivaWithheld: 0,
+    };
+    documents.push(document);
+
+    if (invoice.status && /^cancel/i.test(invoice.status)) {
+      document.treatment = 'cancelled';
+      excluded.cancelled++;
+      continue;
+    }
+
+    if (type === 'P') {
+      let iva = 0;
+      let ivaWithheld = 0;
+      for (const related of invoice.related_documents ?? []) {
+        const original = originals.get(related.uuid.toUpperCase());
+        if (related.iva !== undefined) {
+          iva += related.iva;
+          ivaWithheld += related.iva_withheld ?? 0;
+          continue;
+        }
+
+        // Without an itemised amount, IVA is paid in proportion to the invoice total
+        const taxes = original && invoiceTaxes(original);
+        if (!original || !taxes || related.paid_amount === undefined || !original.total) {
+          warnings.push(
+            `${invoice.uuid}: cannot determine the IVA paid on related invoice ${related.uuid}`
+          );
+          document.note = 'Some related invoices could not be resolved';
+          continue;
+        }
+        const share = related.paid_amount / original.total;
+        iva += taxes.iva * share;
+        ivaWithheld += taxes.ivaWithheld * share;
+        document.estimated = true;
+      }
+
+      const ivaMxn = inMxn(invoice, iva);
+      const ivaWithheldMxn = inMxn(invoice, ivaWithheld);
+      if (ivaMxn === undefined || ivaWithheldMxn === undefined) {
+        warnings.push(`${invoice.uuid}: ${invoice.currency} payment without an exchange rate`);
+        excluded.unresolved++;
+        continue;
+      }
+      document.treatment = 'payment';
+      document.iva = ivaMxn;
+      document.ivaWithheld = ivaWithheldMxn;
+      apply(direction, ivaMxn, ivaWithheldMxn);
+      continue;
+    }
+
+    const taxes = invoiceTaxes(invoice);
+    const ivaMxn = taxes && inMxn(invoice, taxes.iva);
+    const ivaWithheldMxn = taxes && inMxn(invoice, taxes.ivaWithheld);
+    if (!taxes || ivaMxn === undefined || ivaWithheldMxn === undefined) {
+      warnings.push(
+        taxes
+          ? `${invoice.uuid}: ${invoice.currency} invoice without an exchange rate`
+          : `${invoice.uuid}: no IVA amount or subtotal to derive it from`
+      );
+      excluded.unresolved++;
+      continue;
+    }
+    document.estimated = taxes.estimated || undefined;
+
+    // Credit notes reduce the period they are issued in, whatever their payment type
+    if (type === 'E') {
+      document.treatment = 'credit_note';
+      document.iva = -ivaMxn;
+      document.ivaWithheld = -ivaWithheldMxn;
+      apply(direction, -ivaMxn, -ivaWithheldMxn);
+      continue;
+    }
+
+    if (invoice.payment_type?.toUpperCase() === 'PPD') {
+      document.treatment = 'ppd_pending';
+      pending[direction].count++;
+      pending[direction].iva += toCents(ivaMxn);
+      continue;
+    }
+
+    if (!invoice.payment_type) {
+      document.note = 'No payment type; treated as PUE';
+    }
+    document.treatment = 'pue';
+    document.iva = ivaMxn;
+    document.ivaWithheld = ivaWithheldMxn;
+    apply(direction, ivaMxn, ivaWithheldMxn);
+  }
+
+  const balance = cents.collected - cents.withheldByCustomers - cents.creditable;
+
+  return {
+    rfc,
+    period,
+    basis: 'cash',
+    iva: {
+      collected: fromCents(cents.collected),
+      withheldByCustomers: fromCents(cents.withheldByCustomers),
+      creditable: fromCents(cents.creditable),
+      withheldFromSuppliers: fromCents(cents.withheldFromSuppliers),
+      balance: fromCents(balance),
+      payable: fromCents(Math.max(balance, 0)),
+      inFavor: fromCents(Math.max(-balance, 0)),
+    },
+    pendingPpd: {
+      issued: { count: pending.issued.count, iva: fromCents(pending.issued.iva) },
+      received: { count: pending.received.count, iva: fromCents(pending.received.iva) },
+    },
+    excluded,
+    warnings,
+    documents: documents.map((document) => ({
+      ...document,
+      iva: fromCents(toCents(document.iva)),
+      ivaWithheld: fromCents(toCents(document.ivaWithheld)),
+    })),
+  };
+}
+
+/** Compares computed figures with those found in the report's `iva` section. */
+export function compareWithReport(iva: IvaFigures, report: MonthlyTaxReport): IvaReportComparison {
+  const section = (report.iva ?? {}) as Record<string, unknown>;
+  const reported: Partial<IvaFigures> = {};
+  const differences: IvaReportDifference[] = [];
+
+  for (const [figure, keys] of Object.entries(REPORT_KEYS) as [IvaFigure, string[]][]) {
+    const key = keys.find((candidate) => section[candidate] !== undefined);
+    const value = key === undefined ? NaN : Number(section[key]);
+    if (!Number.isFinite(value)) {
+      continue;
+    }
+    reported[figure] = value;
+
+    const difference = toCents(iva[figure]) - toCents(value);
+    if (difference !== 0) {
+      differences.push({
+        figure,
+        computed: iva[figure],
+        reported: value,
+        difference: fromCents(difference),
+      });
+    }
+  }
+
+  return { available: true, reported, differences };
+}
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+import { AccountRegistry } from '../accounts/registry.js';
+import { defineTool, ToolContext } from './types.js';
+
+// ============================================
+// Accounts
+// ============================================
+
+function requireAccounts(context: ToolContext): AccountRegistry {
+  if (!context.accounts) {
+    throw new Error('Account switching is only available on the local (stdio) server');
+  }
+  return context.accounts;
+}
+
+export const accountTools = [
+  defineTool({
+    name: 'list_accounts',
+    description:
+      'Lists the Taxo accounts configured on this server (name, description, default accountant ID) and which one is active. Tokens are never shown.',
+    requiresAccounts: true,
+    schema: z.object({}),
+    handler: async (_input, context) => {
+      const accounts = requireAccounts(context).list();
+      return { count: accounts.length, accounts };
+    },
+  }),
+  defineTool({
+    name: 'use_account',
+    description:
+      'Switches the active Taxo account. Later tool calls use its token, base URLs and default accountant ID until switched again.',
+    requiresAccounts: true,
+    schema: z.object({
+      name: z.string().describe('Account name from list_accounts'),
+    }),
+    handler: async ({ name }, context) => requireAccounts(context).use(name),
+  }),
+];
@@ -0,0 +1,78 @@
+import { z } from 'zod';
+
+import { resolveAccountantId, ToolContext } from './types.js';
+
+// ============================================
+// Bulk Extraction Guard
+// ============================================
+
+export const confirmationTokenField = z
+  .string()
+  .optional()
+  .describe(
+    'Token from a previous dry run of this tool with the same arguments. Omit it to get a dry run that triggers nothing.'
+  );
+
+/** What a bulk extraction would trigger, reported by the dry run. */
+export interface BulkExtractionPlan {
+  operation: string;
+  scope: 'accountant' | 'platform';
+  accountantId?: string;
+  /** Taxo does not report how many taxpayers a bulk request covers, so this is null when unknown. */
+  taxpayerCount: number | null;
+  /** SAT requests Taxo makes for each taxpayer covered by the extraction. */
+  satRequestsPerTaxpayer: number;
+}
+
+/**
+ * Runs a bulk extraction only when called with a confirmation token. The first
+ * call returns the plan and a token bound to the same tool and arguments.
+ */
+export async function confirmBulkExtraction<I extends { confirmationToken?: string }, T>(
+  context: ToolContext,
+  tool: string,
+  { confirmationToken, ...input }: I,
+  plan: BulkExtractionPlan,
+  run: () => Promise<T>
+) {
+  if (!confirmationToken) {
+    const { token, expiresAt } = context.confirmations.issue(tool, input);
+    return {
+      dryRun: true,
+      ...plan,
+      estimatedSatRequests:
+        plan.taxpayerCount === null ? null : plan.taxpayerCount * plan.satRequestsPerTaxpayer,
+      confirmationToken: token,
+      expiresAt,
+      message: `Nothing was triggered. Confirm with the user, then call ${tool} again with the same arguments and this confirmationToken.`,
+    };
+  }
+
+  context.confirmations.consume(confirmationToken, tool, input);
+  return run();
+}
+
+/**
+ * `confirmBulkExtraction` for the taxpayers of one accountant. The accountant
+ * is resolved before the token is issued or checked, so a token stays bound to
+ * that accountant even when the call relies on the default.
+ */
+export async function confirmAccountantExtraction<
+  I extends { accountantId?: string; confirmationToken?: string },
+  T,
+>(
+  context: ToolContext,
+  tool: string,
+  { accountantId: requested, ...input }: I,
+  plan: Omit<BulkExtractionPlan, 'scope' | 'accountantId'>,
+  run: (accountantId: string) => Promise<T>
+) {
+  const accountantId = resolveAccountantId(context, requested);
+  return confirmBulkExtraction(
+    context,
+    tool,
+    { accountantId, ...input },
+    { ...plan, scope: 'accountant', accountantId },
+    () => run(accountantId)
+  );
+}
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+
+import { parseCfdi } from '../api/cfdi.js';
+import { trackExtraction } from '../jobs/tracker.js';
+import { DateWindow, refineDateRange, splitIntoMonthlyWindows } from '../validation/dates.js';
+import { confirmAccountantExtraction, confirmationTokenField } from './bulk.js';
+import {
+  defineTool,
+  endDateField,
+  optionalAccountantIdField,
+  rfcField,
+  startDateField,
+} from './types.js';
+
+// ============================================
+// CFDI (Electronic Invoices)
+// ============================================
+
+interface WindowOutcome extends DateWindow {
+  status: 'requested' | 'failed';
+  jobId?: string;
+  error?: string;
+}
+
+/**
+ * Issues one extraction per monthly window, sequentially to spare SAT, and
+ * reports which windows were requested and which failed.
+ */
+async function extractByWindow(
+  range: DateWindow,
+  extract: (window: DateWindow) => Promise<{ jobId?: string }>
+) {
+  const windows: WindowOutcome[] = [];
+
+  for (const window of splitIntoMonthlyWindows(range.startDate, range.endDate)) {
+    try {
+      const { jobId } = await extract(window);
+      windows.push({ ...window, status: 'requested', jobId });
+    } catch (error) {
+      windows.push({
+        ...window,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return {
+    startDate: range.startDate,
+    endDate: range.endDate,
+    requested: windows.filter((window) => window.status === 'requested').length,
+    failed: windows.filter((window) => window.status === 'failed').length,
+    windows,
+  };
+}
+
+export const cfdiTools = [
+  defineTool({
+    name: 'extract_cfdi',
+    description:
+      'Requests extraction of CFDI (electronic invoices) for a taxpayer. Can extract issued, received, or all invoices within a date range. Long ranges are split into monthly windows, each tracked as its own job. This is an async operation.',
+    mutates: true,
+    schema: z
+      .object({
+        rfc: rfcField,
+        startDate: startDateField,
+        endDate: endDateField,
+        extractionType: z
+          .enum(['all', 'issued', 'received'])
+          .describe('Type of invoices to extract: all, issued (emitidos), or received (recibidos)'),
+      })
+      .superRefine(refineDateRange),
+    handler: async ({ rfc, extractionType, ...range }, context) => {
+      const summary = await extractByWindow(range, async (window) => {
+        const { job } = await trackExtraction(
+          context,
+          { rfc, type: 'cfdi', extractionType, ...window },
+          () => context.client.extractCfdiByRfc({ rfc, extractionType, ...window })
+        );
+        return { jobId: job.id };
+      });
+      return { rfc, extractionType, ...summary };
+    },
+  }),
+  defineTool({
+    name: 'extract_cfdi_by_accountant',
+    description:
+      'Requests extraction of CFDI for all clients of an accountant within a date range. Long ranges are split into monthly windows. The first call is a dry run that returns a confirmationToken; call again with it to start the extraction. This is an async operation.',
+    mutates: true,
+    schema: z
+      .object({
+        accountantId: optionalAccountantIdField,
+        startDate: startDateField,
+        endDate: endDateField,
+        confirmationToken: confirmationTokenField,
+      })
+      .superRefine(refineDateRange),
+    handler: async (input, context) => {
+      const { startDate, endDate } = input;
+      return confirmAccountantExtraction(
+        context,
+        'extract_cfdi_by_accountant',
+        input,
+        {
+          operation: `CFDI extraction from ${startDate} to ${endDate}`,
+          taxpayerCount: null,
+          satRequestsPerTaxpayer: splitIntoMonthlyWindows(startDate, endDate).length,
+        },
+        async (accountantId) => {
+          const summary = await extractByWindow({ startDate, endDate }, async (window) => {
+            await context.client.extractCfdiByAccountant({ accountantId, ...window });
+            return {};
+          });
+          return { accountantId, ...summary };
+        }
+      );
+    },
+  }),
+  defineTool({
+    name: 'parse_cfdi',
+    description:
+      'Parses CFDI 3.3 or 4.0 XML content locally into structured JSON: emisor, receptor, conceptos, impuestos trasladados/retenidos, TimbreFiscalDigital UUID, complemento de pago and nómina.',
+    schema: z.object({
+      xml: z.string().min(1).describe('CFDI XML content'),
+    }),
+    handler: async ({ xml }) => parseCfdi(xml),
+  }),
+];
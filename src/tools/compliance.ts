@@ -0,0 +1,79 @@
+import { z } from 'zod';
+
+import { trackExtraction } from '../jobs/tracker.js';
+import {
+  confirmAccountantExtraction,
+  confirmBulkExtraction,
+  confirmationTokenField,
+} from './bulk.js';
+import {
+  defineTool,
+  optionalAccountantIdField,
+  refreshField,
+  rfcField,
+} from './types.js';
+
+// ============================================
+// Compliance Opinion (Opinión de Cumplimiento)
+// ============================================
+
+export const complianceTools = [
+  defineTool({
+    name: 'extract_compliance_opinion',
+    description:
+      'Requests extraction of SAT compliance opinion (Opinión de Cumplimiento) for a taxpayer by RFC. This is an async operation; returns a job ID to track it.',
+    mutates: true,
+    schema: z.object({
+      rfc: rfcField.describe('Taxpayer RFC (Registro Federal de Contribuyentes)'),
+    }),
+    handler: async ({ rfc }, context) =>
+      trackExtraction(context, { rfc, type: 'oc' }, () =>
+        context.client.extractComplianceOpinionByRfc(rfc)
+      ),
+  }),
+  defineTool({
+    name: 'extract_compliance_opinion_by_accountant',
+    description:
+      'Requests extraction of compliance opinions for all taxpayers of an accountant. The first call is a dry run that returns a confirmationToken; call again with it to start the extraction. This is an async operation.',
+    mutates: true,
+    schema: z.object({
+      accountantId: optionalAccountantIdField,
+      confirmationToken: confirmationTokenField,
+    }),
+    handler: async (input, context) =>
+      confirmAccountantExtraction(
+        context,
+        'extract_compliance_opinion_by_accountant',
+        input,
+        { operation: 'Compliance opinion extraction', taxpayerCount: null, satRequestsPerTaxpayer: 1 },
+        (accountantId) => context.client.extractComplianceOpinionByAccountant(accountantId)
+      ),
+  }),
+  defineTool({
+    name: 'extract_compliance_opinion_all',
+    description:
+      'Requests extraction of compliance opinions for all valid taxpayers in the platform. The first call is a dry run that returns a confirmationToken; call again with it to start the extraction. This is an async operation.',
+    mutates: true,
+    schema: z.object({ confirmationToken: confirmationTokenField }),
+    handler: async (input, context) =>
+      confirmBulkExtraction(
+        context,
+        'extract_compliance_opinion_all',
+        input,
+        {
+          operation: 'Compliance opinion extraction',
+          scope: 'platform',
+          taxpayerCount: null,
+          satRequestsPerTaxpayer: 1,
+        },
+        () => context.client.extractComplianceOpinionAll()
+      ),
+  }),
+  defineTool({
+    name: 'get_compliance_opinion',
+    description:
+      'Retrieves the SAT compliance opinion (Opinión de Cumplimiento) for a taxpayer. Returns the latest extracted opinion.',
+    schema: z.object({ rfc: rfcField, refresh: refreshField }),
+    handler: async ({ rfc, refresh }, { client }) => client.getComplianceOpinion(rfc, { refresh }),
+  }),
+];
@@ -0,0 +1,90 @@
+import { z } from 'zod';
+
+import { refreshExtractionJob } from '../jobs/tracker.js';
+import { defineTool, rfcField, ToolContext } from './types.js';
+
+// ============================================
+// Extraction Jobs
+// ============================================
+
+const extractionTypeField = z
+  .enum(['oc', 'csf', 'cfdi'])
+  .describe('Extraction type: oc (compliance opinion), csf (tax status certificate), or cfdi');
+
+function getJob(jobId: string, context: ToolContext) {
+  const job = context.jobs.get(jobId);
+  if (!job) {
+    throw new Error(`Unknown extraction job: ${jobId}`);
+  }
+  return job;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const extractionTools = [
+  defineTool({
+    name: 'get_extraction_status',
+    description:
+      'Checks whether an extraction requested through this server has finished. Returns the job with its current status.',
+    schema: z.object({
+      jobId: z.string().describe('Job ID returned by an extract_* tool'),
+    }),
+    handler: async ({ jobId }, context) => refreshExtractionJob(getJob(jobId, context), context),
+  }),
+  defineTool({
+    name: 'list_extractions',
+    description: 'Lists extractions requested through this server, newest first.',
+    schema: z.object({
+      rfc: rfcField.optional().describe('Filter by taxpayer RFC'),
+      extractionType: extractionTypeField.optional(),
+      status: z
+        .enum(['pending', 'completed', 'failed'])
+        .optional()
+        .describe('Filter by job status'),
+      limit: z.number().int().positive().max(100).default(20).describe('Maximum jobs to return'),
+    }),
+    handler: async ({ rfc, extractionType, status, limit }, { jobs }) => {
+      const matches = jobs.list({ rfc, type: extractionType, status, limit });
+      return { count: matches.length, jobs: matches };
+    },
+  }),
+  defineTool({
+    name: 'wait_for_extraction',
+    description:
+      'Waits until an extraction job finishes or the timeout expires, polling Taxo for fresh data. Returns the job with its final status.',
+    schema: z.object({
+      jobId: z.string().describe('Job ID returned by an extract_* tool'),
+      timeoutSeconds: z
+        .number()
+        .int()
+        .positive()
+        .max(300)
+        .default(60)
+        .describe('Maximum time to wait in seconds'),
+      intervalSeconds: z
+        .number()
+        .int()
+        .min(2)
+        .max(60)
+        .default(5)
+        .describe('Time between checks in seconds'),
+    }),
+    handler: async ({ jobId, timeoutSeconds, intervalSeconds }, context, extra) => {
+      const startedAt = Date.now();
+      const deadline = startedAt + timeoutSeconds * 1000;
+      let job = await refreshExtractionJob(getJob(jobId, context), context);
+
+      while (job.status === 'pending' && Date.now() < deadline && !extra.signal.aborted) {
+        await extra.reportProgress(
+          Math.round((Date.now() - startedAt) / 1000),
+          timeoutSeconds,
+          `Waiting for ${job.type} extraction for ${job.rfc}`
+        );
+        await sleep(Math.min(intervalSeconds * 1000, deadline - Date.now()));
+        job = await refreshExtractionJob(job, context);
+      }
+
+      return { timedOut: job.status === 'pending', job };
+    },
+  }),
+];
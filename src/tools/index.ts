@@ -0,0 +1,42 @@
+import { accountTools } from './accounts.js';
+import { cfdiTools } from './cfdi.js';
+import { complianceTools } from './compliance.js';
+import { extractionTools } from './extractions.js';
+import { isToolEnabled, ToolPolicy } from './policy.js';
+import { reportTools } from './reports.js';
+import { resultTools } from './results.js';
+import { rfcTools } from './rfc.js';
+import { taxpayerTools } from './taxpayers.js';
+import { taxStatusTools } from './taxStatus.js';
+import { AnyToolDefinition, ToolContext, ToolListing, toToolListing } from './types.js';
+
+export * from './policy.js';
+export * from './types.js';
+
+// Single source of truth for every tool exposed by the HTTP and stdio servers
+export const TOOLS: AnyToolDefinition[] = [
+  ...complianceTools,
+  ...taxStatusTools,
+  ...cfdiTools,
+  ...reportTools,
+  ...taxpayerTools,
+  ...resultTools,
+  ...extractionTools,
+  ...rfcTools,
+  ...accountTools,
+];
+
+export function findTool(name: string): AnyToolDefinition | undefined {
+  return TOOLS.find((tool) => tool.name === name);
+}
+
+/** Whether the server behind `context` can run the tool at all, whatever the policy. */
+export function isToolAvailable(tool: AnyToolDefinition, context: ToolContext): boolean {
+  return !tool.requiresAccounts || context.accounts !== undefined;
+}
+
+export function listTools(context: ToolContext, policy: ToolPolicy = {}): ToolListing[] {
+  return TOOLS.filter((tool) => isToolAvailable(tool, context) && isToolEnabled(tool, policy)).map(
+    toToolListing
+  );
+}
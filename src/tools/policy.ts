@@ -0,0 +1,100 @@
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+
+import { AnyToolDefinition } from './types.js';
+
+/**
+ * Restricts which tools a server exposes. `readOnly` hides every tool marked
+ * `mutates`; `allow` limits the server to the listed tools and `deny` removes
+ * tools from whatever is left.
+ */
+export interface ToolPolicy {
+  readOnly?: boolean;
+  allow?: string[];
+  deny?: string[];
+}
+
+export const toolPolicySchema = z
+  .object({
+    readOnly: z.boolean().optional(),
+    allow: z.array(z.string()).optional(),
+    deny: z.array(z.string()).optional(),
+  })
+  .strict();
+
+// Per-token policies for the HTTP server, keyed by the SHA-256 hex digest of the Taxo token
+const tokenPolicyFileSchema = z
+  .object({
+    tokens: z.record(toolPolicySchema),
+  })
+  .strict();
+
+export type TokenPolicies = Record<string, ToolPolicy>;
+
+export function isToolEnabled(tool: AnyToolDefinition, policy: ToolPolicy): boolean {
+  if (policy.readOnly && tool.mutates) {
+    return false;
+  }
+  if (policy.allow && !policy.allow.includes(tool.name)) {
+    return false;
+  }
+  return !policy.deny?.includes(tool.name);
+}
+
+/** Merges policies so the result is at least as strict as each of them. */
+export function combineToolPolicies(...policies: (ToolPolicy | undefined)[]): ToolPolicy {
+  const combined: ToolPolicy = {};
+  for (const policy of policies) {
+    if (!policy) {
+      continue;
+    }
+    if (policy.readOnly) {
+      combined.readOnly = true;
+    }
+    if (policy.allow) {
+      combined.allow = combined.allow
+        ? combined.allow.filter((name) => policy.allow!.includes(name))
+        : [...policy.allow];
+    }
+    if (policy.deny) {
+      combined.deny = [...new Set([...(combined.deny ?? []), ...policy.deny])];
+    }
+  }
+  return combined;
+}
+
+/** Throws when a policy names a tool that does not exist, which usually means a typo. */
+export function assertKnownTools(policy: ToolPolicy, tools: AnyToolDefinition[]): void {
+  const known = new Set(tools.map((tool) => tool.name));
+  const unknown = [...(policy.allow ?? []), ...(policy.deny ?? [])].filter(
+    (name) => !known.has(name)
+  );
+  if (unknown.length > 0) {
+    throw new Error(`Unknown tool(s) in tool policy: ${unknown.join(', ')}`);
+  }
+}
+
+/** Parses a comma-separated list of tool names; empty input means no list. */
+export function parseToolList(value: string | undefined): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const names = value
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  return names.length > 0 ? names : undefined;
+}
+
+export function loadTokenPolicies(path: string): TokenPolicies {
+  const raw = JSON.parse(readFileSync(path, 'utf8'));
+  const parsed = tokenPolicyFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid tool policy file ${path}: ${parsed.error.issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ')}`
+    );
+  }
+  return parsed.data.tokens;
+}
@@ -0,0 +1,160 @@
+import { z } from 'zod';
+
+import { TaxoMxApiError } from '../api/client.js';
+import { Invoice } from '../api/models.js';
+import {
+  compareWithReport,
+  computeIvaSummary,
+  IvaReportComparison,
+  missingRelatedInvoices,
+} from '../tax/iva.js';
+import { defineTool, refreshField, rfcField } from './types.js';
+
+const INVOICE_FIELDS = [
+  'uuid',
+  'date',
+  'type',
+  'status',
+  'issuer_rfc',
+  'issuer_name',
+  'receiver_rfc',
+  'receiver_name',
+  'subtotal',
+  'total',
+  'currency',
+  'payment_type',
+  'payment_way',
+  'category',
+] as const;
+
+type InvoiceField = (typeof INVOICE_FIELDS)[number];
+
+function projectInvoice(invoice: Invoice, fields?: InvoiceField[]): Partial<Invoice> {
+  if (!fields || fields.length === 0) {
+    return invoice;
+  }
+  return Object.fromEntries(fields.map((field) => [field, invoice[field]]));
+}
+
+// ============================================
+// Reports, Contacts, Invoices & Categories
+// ============================================
+
+export const reportTools = [
+  defineTool({
+    name: 'get_monthly_tax_report',
+    description:
+      'Retrieves the monthly tax report for a taxpayer. Includes ISR, IVA, and other tax calculations.',
+    schema: z.object({
+      rfc: rfcField,
+      year: z.string().describe('Year (e.g., "2025")'),
+      month: z.string().describe('Month in MM format (e.g., "04" for April)'),
+      refresh: refreshField,
+    }),
+    handler: async ({ rfc, year, month, refresh }, { client }) =>
+      client.getMonthlyTaxReport(rfc, year, month, { refresh }),
+  }),
+  defineTool({
+    name: 'compute_iva_summary',
+    description:
+      "Computes a month's IVA from the taxpayer's issued and received invoices on a cash basis: IVA trasladado collected (PUE invoices plus payment complements for PPD invoices), IVA acreditable paid, IVA withheld by customers and from suppliers, and the resulting balance. Compares the figures with Taxo's monthly tax report and lists any differences.",
+    schema: z.object({
+      rfc: rfcField,
+      year: z
+        .string()
+        .regex(/^\d{4}$/, 'Must be a four-digit year')
+        .describe('Year (e.g., "2025")'),
+      month: z
+        .string()
+        .regex(/^(0[1-9]|1[0-2])$/, 'Must be a month in MM format')
+        .describe('Month in MM format (e.g., "04" for April)'),
+      includeDocuments: z
+        .boolean()
+        .default(false)
+        .describe("Also list each invoice's contribution to the figures"),
+      refresh: refreshField,
+    }),
+    handler: async ({ rfc, year, month, includeDocuments, refresh }, { client }) => {
+      const invoices = await client.getInvoices(rfc, { year, month }, { refresh });
+
+      // Complements may settle invoices from earlier months; fetch those only when needed
+      const related =
+        missingRelatedInvoices(invoices).length > 0
+          ? await client.getInvoices(rfc, undefined, { refresh })
+          : [];
+      const { documents, ...summary } = computeIvaSummary({ rfc, year, month, invoices, related });
+
+      let report: IvaReportComparison;
+      try {
+        const monthly = await client.getMonthlyTaxReport(rfc, year, month, { refresh });
+        report = compareWithReport(summary.iva, monthly);
+      } catch (error) {
+        if (!(error instanceof TaxoMxApiError)) {
+          throw error;
+        }
+        report = { available: false, reported: {}, differences: [], error: error.message };
+      }
+
+      return { ...summary, report, ...(includeDocuments ? { documents } : {}) };
+    },
+  }),
+  defineTool({
+    name: 'get_contacts',
+    description: 'Retrieves the contacts associated with a taxpayer.',
+    schema: z.object({ rfc: rfcField, refresh: refreshField }),
+    handler: async ({ rfc, refresh }, { client }) => client.getContacts(rfc, { refresh }),
+  }),
+  defineTool({
+    name: 'get_invoices',
+    description:
+      'Retrieves invoices/documents for a taxpayer with optional filters. Supports filtering by type, date, status, category, and more. Results are paginated with limit/offset; use fields to return only the columns you need.',
+    schema: z.object({
+      rfc: rfcField,
+      type: z.string().optional().describe('Invoice type filter'),
+      year: z.string().optional().describe('Filter by year'),
+      month: z.string().optional().describe('Filter by month'),
+      status: z.string().optional().describe('Invoice status filter'),
+      category: z.string().optional().describe('Category filter'),
+      search: z.string().optional().describe('Search term'),
+      issuer: z.string().optional().describe('Filter by issuer'),
+      paymentType: z.string().optional().describe('Payment type filter'),
+      paymentWay: z.string().optional().describe('Payment method filter'),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .max(500)
+        .default(50)
+        .describe('Maximum invoices to return (default 50)'),
+      offset: z.number().int().min(0).default(0).describe('Number of invoices to skip'),
+      fields: z
+        .array(z.enum(INVOICE_FIELDS))
+        .optional()
+        .describe(
+          'Only return these fields for each invoice, e.g. ["uuid", "date", "issuer_name", "total", "status"]'
+        ),
+      refresh: refreshField,
+    }),
+    handler: async ({ rfc, limit, offset, fields, refresh, ...filters }, { client }) => {
+      const invoices = await client.getInvoices(rfc, filters, { refresh });
+      const page = invoices.slice(offset, offset + limit);
+      const hasMore = offset + page.length < invoices.length;
+
+      return {
+        total: invoices.length,
+        offset,
+        limit,
+        count: page.length,
+        hasMore,
+        nextOffset: hasMore ? offset + page.length : null,
+        invoices: page.map((invoice) => projectInvoice(invoice, fields)),
+      };
+    },
+  }),
+  defineTool({
+    name: 'get_categories',
+    description: 'Retrieves all categories defined in Taxo for invoice classification.',
+    schema: z.object({ refresh: refreshField }),
+    handler: async ({ refresh }, { client }) => client.getCategories({ refresh }),
+  }),
+];
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+import { isResultForJob } from '../jobs/tracker.js';
+import { defineTool, rfcField } from './types.js';
+
+// ============================================
+// Extraction Results (delivered via webhook)
+// ============================================
+
+export const resultTools = [
+  defineTool({
+    name: 'get_extraction_results',
+    description:
+      'Retrieves extraction results delivered by Taxo webhooks, newest first. Use after an extract_* tool to see the outcome. On the remote server, only results for extractions requested with your token are returned.',
+    schema: z.object({
+      rfc: rfcField,
+      extractionType: z
+        .enum(['oc', 'csf', 'cfdi'])
+        .optional()
+        .describe(
+          'Filter by extraction type: oc (compliance opinion), csf (tax status certificate), or cfdi'
+        ),
+      limit: z.number().int().positive().max(100).default(10).describe('Maximum results to return'),
+    }),
+    handler: async ({ rfc, extractionType, limit }, { results, jobs, ownResultsOnly }) => {
+      if (!ownResultsOnly) {
+        const records = results.query({ rfc, type: extractionType, limit });
+        return { count: records.length, results: records };
+      }
+
+      const owned = jobs.list({ rfc, type: extractionType });
+      const records = results
+        .query({ rfc, type: extractionType })
+        .filter((record) => owned.some((job) => isResultForJob(job, record)))
+        .slice(0, limit);
+      return { count: records.length, results: records };
+    },
+  }),
+];
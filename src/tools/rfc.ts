@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+import { validateRfc } from '../validation/rfc.js';
+import { defineTool } from './types.js';
+
+// ============================================
+// RFC Validation
+// ============================================
+
+export const rfcTools = [
+  defineTool({
+    name: 'validate_rfc',
+    description:
+      'Validates an RFC locally without calling Taxo: length, date segment, homoclave check digit and generic RFCs. Explains what is wrong and whether it belongs to a persona física or persona moral.',
+    schema: z.object({
+      rfc: z.string().describe('RFC to validate'),
+    }),
+    handler: async ({ rfc }) => validateRfc(rfc),
+  }),
+];
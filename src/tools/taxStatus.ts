@@ -0,0 +1,77 @@
+import { z } from 'zod';
+
+import { trackExtraction } from '../jobs/tracker.js';
+import {
+  confirmAccountantExtraction,
+  confirmBulkExtraction,
+  confirmationTokenField,
+} from './bulk.js';
+import {
+  defineTool,
+  optionalAccountantIdField,
+  refreshField,
+  rfcField,
+} from './types.js';
+
+// ============================================
+// Tax Status Certificate (Constancia de Situación Fiscal)
+// ============================================
+
+export const taxStatusTools = [
+  defineTool({
+    name: 'extract_tax_status',
+    description:
+      'Requests extraction of tax status certificate (Constancia de Situación Fiscal) for a taxpayer by RFC. This is an async operation; returns a job ID to track it.',
+    mutates: true,
+    schema: z.object({ rfc: rfcField }),
+    handler: async ({ rfc }, context) =>
+      trackExtraction(context, { rfc, type: 'csf' }, () =>
+        context.client.extractTaxStatusByRfc(rfc)
+      ),
+  }),
+  defineTool({
+    name: 'extract_tax_status_by_accountant',
+    description:
+      'Requests extraction of tax status certificates for all taxpayers of an accountant. The first call is a dry run that returns a confirmationToken; call again with it to start the extraction. This is an async operation.',
+    mutates: true,
+    schema: z.object({
+      accountantId: optionalAccountantIdField,
+      confirmationToken: confirmationTokenField,
+    }),
+    handler: async (input, context) =>
+      confirmAccountantExtraction(
+        context,
+        'extract_tax_status_by_accountant',
+        input,
+        { operation: 'Tax status certificate extraction', taxpayerCount: null, satRequestsPerTaxpayer: 1 },
+        (accountantId) => context.client.extractTaxStatusByAccountant(accountantId)
+      ),
+  }),
+  defineTool({
+    name: 'extract_tax_status_all',
+    description:
+      'Requests extraction of tax status certificates for all valid taxpayers. The first call is a dry run that returns a confirmationToken; call again with it to start the extraction. This is an async operation.',
+    mutates: true,
+    schema: z.object({ confirmationToken: confirmationTokenField }),
+    handler: async (input, context) =>
+      confirmBulkExtraction(
+        context,
+        'extract_tax_status_all',
+        input,
+        {
+          operation: 'Tax status certificate extraction',
+          scope: 'platform',
+          taxpayerCount: null,
+          satRequestsPerTaxpayer: 1,
+        },
+        () => context.client.extractTaxStatusAll()
+      ),
+  }),
+  defineTool({
+    name: 'get_tax_status',
+    description:
+      'Retrieves the tax status certificate (Constancia de Situación Fiscal) for a taxpayer. Returns the latest extracted certificate.',
+    schema: z.object({ rfc: rfcField, refresh: refreshField }),
+    handler: async ({ rfc, refresh }, { client }) => client.getTaxStatus(rfc, { refresh }),
+  }),
+];
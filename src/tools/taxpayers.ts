@@ -0,0 +1,65 @@
+import { z } from 'zod';
+
+import {
+  defineTool,
+  optionalAccountantIdField,
+  resolveAccountantId,
+  rfcField,
+} from './types.js';
+
+// ============================================
+// Taxpayer Management
+// ============================================
+
+export const taxpayerTools = [
+  defineTool({
+    name: 'create_taxpayer',
+    description:
+      'Creates a new taxpayer under an accountant. Requires the RFC and CIEC (SAT password) to enable document extraction. Prefer request_taxpayer_registration, which keeps the CIEC out of the conversation; only use this tool if the user explicitly provides the CIEC.',
+    mutates: true,
+    schema: z.object({
+      accountantId: optionalAccountantIdField,
+      rfc: rfcField,
+      ciec: z.string().describe('CIEC password for SAT access'),
+    }),
+    handler: async ({ accountantId, rfc, ciec }, context) =>
+      context.client.createTaxpayer(resolveAccountantId(context, accountantId), rfc, ciec),
+  }),
+  defineTool({
+    name: 'request_taxpayer_registration',
+    description:
+      'Starts registering a new taxpayer under an accountant without handling the CIEC. Returns a one-time link where the accountant types the CIEC directly; share the link and never ask for the CIEC in chat.',
+    mutates: true,
+    schema: z.object({
+      accountantId: optionalAccountantIdField,
+      rfc: rfcField,
+    }),
+    handler: async ({ accountantId, rfc }, context) => {
+      const registration = await context.registrations.create(
+        context.client,
+        resolveAccountantId(context, accountantId),
+        rfc
+      );
+      return {
+        ...registration,
+        instructions:
+          'Ask the accountant to open the URL and enter the CIEC there. Then check progress with get_taxpayer_registration.',
+      };
+    },
+  }),
+  defineTool({
+    name: 'get_taxpayer_registration',
+    description:
+      'Checks whether a registration started with request_taxpayer_registration has been completed.',
+    schema: z.object({
+      registrationId: z.string().describe('Registration ID returned by request_taxpayer_registration'),
+    }),
+    handler: async ({ registrationId }, { registrations }) => {
+      const registration = registrations.get(registrationId);
+      if (!registration) {
+        throw new Error(`Unknown taxpayer registration: ${registrationId}`);
+      }
+      return registration;
+    },
+  }),
+];
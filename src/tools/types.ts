@@ -0,0 +1,118 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+import { AccountRegistry } from '../accounts/registry.js';
+import { TaxoMxApiClient } from '../api/client.js';
+import { ConfirmationStore } from '../jobs/confirmations.js';
+import { JobStore } from '../jobs/store.js';
+import { TaxpayerRegistrationService } from '../registrations/service.js';
+import { isoDateField } from '../validation/dates.js';
+import { normalizeRfc, validateRfc } from '../validation/rfc.js';
+import { ExtractionResultStore } from '../webhooks/store.js';
+
+export interface ToolContext {
+  client: TaxoMxApiClient;
+  results: ExtractionResultStore;
+  jobs: JobStore;
+  confirmations: ConfirmationStore;
+  registrations: TaxpayerRegistrationService;
+  /** Named accounts the local server can switch between; absent on the HTTP server. */
+  accounts?: AccountRegistry;
+  /** Accountant used when a tool call omits `accountantId`. */
+  defaultAccountantId?: string;
+  /**
+   * Only show webhook results answering this caller's extraction jobs. Set on
+   * the HTTP server, where every token's results land in one store.
+   */
+  ownResultsOnly?: boolean;
+}
+
+/** Per-call hooks into the MCP request that invoked the tool. */
+export interface ToolCallExtra {
+  signal: AbortSignal;
+  /** Sends a progress notification when the client asked for one; no-op otherwise. */
+  reportProgress: (progress: number, total?: number, message?: string) => Promise<void>;
+}
+
+export interface ToolDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  schema: S;
+  /** Set on tools that start extractions or create data in Taxo; hidden in read-only mode. */
+  mutates?: boolean;
+  /** Set on tools that need `context.accounts`; hidden on servers without account switching. */
+  requiresAccounts?: boolean;
+  // Method syntax so tools with specific schemas still fit in an AnyToolDefinition list
+  handler(input: z.infer<S>, context: ToolContext, extra: ToolCallExtra): Promise<unknown>;
+}
+
+export type AnyToolDefinition = ToolDefinition<z.ZodTypeAny>;
+
+export interface ToolListing {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: 'object';
+    properties?: Record<string, unknown>;
+    required?: string[];
+    [key: string]: unknown;
+  };
+  annotations: {
+    readOnlyHint: boolean;
+  };
+}
+
+export function defineTool<S extends z.ZodTypeAny>(
+  definition: ToolDefinition<S>
+): ToolDefinition<S> {
+  return definition;
+}
+
+export function toToolListing(tool: AnyToolDefinition): ToolListing {
+  // Drop JSON Schema bookkeeping so listings match the hand-written MCP shape
+  const {
+    $schema: _schema,
+    additionalProperties: _additionalProperties,
+    ...inputSchema
+  } = zodToJsonSchema(tool.schema, { $refStrategy: 'none' }) as Record<string, unknown>;
+
+  return {
+    name: tool.name,
+    description: tool.description,
+    inputSchema: { ...inputSchema, type: 'object' },
+    annotations: { readOnlyHint: !tool.mutates },
+  };
+}
+
+// Shared field schemas
+export const rfcField = z
+  .string()
+  .transform(normalizeRfc)
+  .superRefine((rfc, ctx) => {
+    const validation = validateRfc(rfc);
+    if (!validation.valid) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Invalid RFC ${rfc}: ${validation.errors.join('; ')}`,
+      });
+    }
+  })
+  .describe('Taxpayer RFC');
+export const accountantIdField = z.string().describe('Internal accountant ID');
+export const optionalAccountantIdField = accountantIdField
+  .optional()
+  .describe("Internal accountant ID; defaults to the active account's accountant");
+export const startDateField = isoDateField.describe('Start date in YYYY-MM-DD format');
+export const endDateField = isoDateField.describe('End date in YYYY-MM-DD format');
+export const refreshField = z
+  .boolean()
+  .optional()
+  .describe('Bypass the response cache and fetch fresh data from Taxo');
+
+export function resolveAccountantId(context: ToolContext, accountantId?: string): string {
+  const resolved = accountantId ?? context.defaultAccountantId;
+  if (!resolved) {
+    throw new Error('accountantId is required: no default accountant ID is configured');
+  }
+  return resolved;
+}
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+
+// ============================================
+// Date Validation & Range Splitting
+// ============================================
+
+export interface DateWindow {
+  startDate: string;
+  endDate: string;
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseIsoDate(value: string): Date | undefined {
+  if (!ISO_DATE_PATTERN.test(value)) {
+    return undefined;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  // Reject dates JavaScript silently rolls over, like 2025-02-30
+  return date.toISOString().slice(0, 10) === value ? date : undefined;
+}
+
+function formatIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function todayIsoDate(): string {
+  return formatIsoDate(new Date());
+}
+
+export const isoDateField = z
+  .string()
+  .refine((value) => parseIsoDate(value) !== undefined, {
+    message: 'Must be a valid date in YYYY-MM-DD format',
+  });
+
+/**
+ * Cross-field checks for a `startDate`/`endDate` pair: the range must be
+ * ordered and cannot reach past today.
+ */
+export function refineDateRange(range: DateWindow, ctx: z.RefinementCtx): void {
+  if (range.startDate > range.endDate) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['endDate'],
+      message: `endDate ${range.endDate} is before startDate ${range.startDate}`,
+    });
+  }
+
+  const today = todayIsoDate();
+  if (range.endDate > today) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['endDate'],
+      message: `endDate ${range.endDate} is in the future (today is ${today})`,
+    });
+  }
+}
+
+/**
+ * Splits an inclusive date range into calendar-month windows, the largest
+ * span SAT's mass download service handles reliably in one request.
+ */
+export function splitIntoMonthlyWindows(startDate: string, endDate: string): DateWindow[] {
+  const start = parseIsoDate(startDate);
+  const end = parseIsoDate(endDate);
+  if (!start || !end || start > end) {
+    throw new Error(`Invalid date range ${startDate} to ${endDate}`);
+  }
+
+  const windows: DateWindow[] = [];
+  let cursor = start;
+  while (cursor <= end) {
+    const monthEnd = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 0));
+    const windowEnd = monthEnd < end ? monthEnd : end;
+    windows.push({ startDate: formatIsoDate(cursor), endDate: formatIsoDate(windowEnd) });
+    cursor = new Date(windowEnd.getTime() + 24 * 60 * 60 * 1000);
+  }
+  return windows;
+}
@@ -0,0 +1,117 @@
+// ============================================
+// RFC (Registro Federal de Contribuyentes) Validation
+// ============================================
+
+export type TaxpayerType = 'persona_fisica' | 'persona_moral';
+
+export interface RfcValidation {
+  input: string;
+  rfc: string;
+  valid: boolean;
+  taxpayerType?: TaxpayerType;
+  /** Generic RFCs stand in for the general public or foreign residents. */
+  generic?: 'publico_en_general' | 'extranjero';
+  dateSegment?: string;
+  homoclave?: string;
+  expectedCheckDigit?: string;
+  errors: string[];
+}
+
+const GENERIC_RFCS: Record<string, RfcValidation['generic']> = {
+  XAXX010101000: 'publico_en_general',
+  XEXX010101000: 'extranjero',
+};
+
+const RFC_PATTERN = /^([A-ZÑ&]{3,4})(\d{6})([A-Z\d]{2})([A-Z\d])$/;
+
+// Character values used by SAT's modulo 11 check digit algorithm
+const CHECK_DIGIT_ALPHABET = '0123456789ABCDEFGHIJKLMN&OPQRSTUVWXYZ Ñ';
+
+export function normalizeRfc(rfc: string): string {
+  return rfc.trim().replace(/[\s-]/g, '').toUpperCase();
+}
+
+export function computeRfcCheckDigit(rfc: string): string {
+  // Personas morales are padded to 13 characters with a leading space
+  const padded = rfc.length === 12 ? ` ${rfc}` : rfc;
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += CHECK_DIGIT_ALPHABET.indexOf(padded[i]) * (13 - i);
+  }
+
+  const remainder = sum % 11;
+  if (remainder === 0) {
+    return '0';
+  }
+  const digit = 11 - remainder;
+  return digit === 10 ? 'A' : String(digit);
+}
+
+function isValidDateSegment(segment: string): boolean {
+  const yy = Number(segment.slice(0, 2));
+  const mm = Number(segment.slice(2, 4));
+  const dd = Number(segment.slice(4, 6));
+
+  // The century is not encoded, so accept the date if it exists in either one
+  return [1900 + yy, 2000 + yy].some((year) => {
+    const date = new Date(Date.UTC(year, mm - 1, dd));
+    return (
+      date.getUTCFullYear() === year && date.getUTCMonth() === mm - 1 && date.getUTCDate() === dd
+    );
+  });
+}
+
+export function validateRfc(input: string): RfcValidation {
+  const rfc = normalizeRfc(input);
+  const result: RfcValidation = { input, rfc, valid: false, errors: [] };
+
+  const generic = GENERIC_RFCS[rfc];
+  if (generic) {
+    return {
+      ...result,
+      valid: true,
+      generic,
+      taxpayerType: 'persona_fisica',
+      dateSegment: rfc.slice(4, 10),
+      homoclave: rfc.slice(10),
+    };
+  }
+
+  if (rfc.length !== 12 && rfc.length !== 13) {
+    result.errors.push(
+      `RFC must have 12 characters (persona moral) or 13 characters (persona física), got ${rfc.length}`
+    );
+    return result;
+  }
+
+  const match = RFC_PATTERN.exec(rfc);
+  if (!match || match[1].length !== rfc.length - 9) {
+    result.errors.push(
+      `RFC must be ${rfc.length - 9} letters, 6 digits (YYMMDD) and a 3 character homoclave`
+    );
+    return result;
+  }
+
+  const [, , dateSegment, homoclave, checkDigit] = match;
+  result.taxpayerType = rfc.length === 12 ? 'persona_moral' : 'persona_fisica';
+  result.dateSegment = dateSegment;
+  result.homoclave = homoclave + checkDigit;
+
+  if (!isValidDateSegment(dateSegment)) {
+    result.errors.push(`Date segment ${dateSegment} is not a valid YYMMDD date`);
+  }
+
+  if (!/^[\dA]$/.test(checkDigit)) {
+    result.errors.push(`Check digit must be 0-9 or A, got ${checkDigit}`);
+  } else {
+    result.expectedCheckDigit = computeRfcCheckDigit(rfc);
+    if (result.expectedCheckDigit !== checkDigit) {
+      result.errors.push(
+        `Check digit ${checkDigit} does not match the expected ${result.expectedCheckDigit}`
+      );
+    }
+  }
+
+  result.valid = result.errors.length === 0;
+  return result;
+}
@@ -0,0 +1,104 @@
+import express, { Request, Response, Router } from 'express';
+import { z } from 'zod';
+
+import { logger } from '../logger.js';
+import { verifyWebhookSignature, WebhookVerificationError } from './signature.js';
+import { ExtractionResultRecord, ExtractionResultStore } from './store.js';
+
+export interface WebhookRouterOptions {
+  secret: string;
+  toleranceSeconds: number;
+  store: ExtractionResultStore;
+  /** Called after a verified result has been stored. */
+  onResult?: (record: ExtractionResultRecord) => void | Promise<void>;
+}
+
+const webhookPayloadSchema = z
+  .object({
+    rfc: z.string(),
+    extraction_type: z.enum(['oc', 'csf', 'cfdi']),
+  })
+  .passthrough();
+
+export function createWebhookRouter(options: WebhookRouterOptions): Router {
+  const router = Router();
+
+  // Verified digests, with the time their timestamp leaves the tolerance window
+  const seenSignatures = new Map<string, number>();
+
+  const isReplay = (digest: string, sentAt: number): boolean => {
+    const now = Date.now();
+    for (const [seen, expiresAt] of seenSignatures) {
+      if (now >= expiresAt) {
+        seenSignatures.delete(seen);
+      }
+    }
+    if (seenSignatures.has(digest)) {
+      return true;
+    }
+    // Timestamps up to the tolerance ahead are valid, so count from sentAt rather than now
+    seenSignatures.set(digest, (sentAt + options.toleranceSeconds + 1) * 1000);
+    return false;
+  };
+
+  // Keep the raw body: the signature is computed over the exact bytes sent
+  router.post(
+    '/',
+    express.raw({ type: '*/*', limit: '10mb' }),
+    (req: Request, res: Response) => {
+      const payload: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+
+      let digest: string;
+      try {
+        digest = verifyWebhookSignature({
+          secret: options.secret,
+          payload,
+          signature: req.header('x-taxo-signature'),
+          timestamp: req.header('x-taxo-timestamp'),
+          toleranceSeconds: options.toleranceSeconds,
+        });
+      } catch (error) {
+        if (error instanceof WebhookVerificationError) {
+          res.status(401).json({ error: error.message });
+          return;
+        }
+        throw error;
+      }
+
+      const sentAt = Number(req.header('x-taxo-timestamp'));
+      if (isReplay(digest, sentAt)) {
+        res.status(409).json({ error: 'Webhook delivery already processed' });
+        return;
+      }
+
+      let body: unknown;
+      try {
+        body = JSON.parse(payload.toString('utf8'));
+      } catch {
+        res.status(400).json({ error: 'Body must be valid JSON' });
+        return;
+      }
+
+      const parsed = webhookPayloadSchema.safeParse(body);
+      if (!parsed.success) {
+        res.status(422).json({ error: 'Invalid webhook payload', details: parsed.error.issues });
+        return;
+      }
+
+      const record = options.store.add({
+        rfc: parsed.data.rfc,
+        type: parsed.data.extraction_type,
+        payload: parsed.data,
+      });
+
+      res.status(202).json({ received: true, id: record.id });
+
+      // Notify after responding so a slow listener never delays Taxo's delivery
+      Promise.resolve(options.onResult?.(record)).catch((error) => {
+        logger.error('Webhook result listener failed:', error);
+      });
+    }
+  );
+
+  return router;
+}
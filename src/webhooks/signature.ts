@@ -0,0 +1,67 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+export class WebhookVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookVerificationError';
+  }
+}
+
+export interface VerifyWebhookOptions {
+  secret: string;
+  payload: Buffer | string;
+  signature: string | undefined;
+  timestamp: string | undefined;
+  toleranceSeconds: number;
+  now?: number;
+}
+
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  payload: Buffer | string
+): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(payload)
+    .digest('hex');
+}
+
+// Exactly one encoding per digest, so a re-sent delivery cannot pass as a new one
+const SIGNATURE_FORMAT = /^sha256=([0-9a-f]{64})$/;
+
+/**
+ * Verifies a Taxo webhook delivery. The signature is an HMAC-SHA256 of
+ * `<timestamp>.<raw body>`, sent as `sha256=<lowercase hex>`; deliveries whose
+ * timestamp falls outside the tolerance window are rejected as possible
+ * replays. Returns the verified digest in hex, which identifies the delivery.
+ */
+export function verifyWebhookSignature(options: VerifyWebhookOptions): string {
+  const { secret, payload, signature, timestamp, toleranceSeconds } = options;
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+
+  if (!signature || !timestamp) {
+    throw new WebhookVerificationError('Missing signature or timestamp header');
+  }
+
+  const sentAt = Number(timestamp);
+  if (!Number.isInteger(sentAt)) {
+    throw new WebhookVerificationError('Invalid timestamp header');
+  }
+  if (Math.abs(now - sentAt) > toleranceSeconds) {
+    throw new WebhookVerificationError('Timestamp outside the allowed window');
+  }
+
+  const match = SIGNATURE_FORMAT.exec(signature);
+  if (!match) {
+    throw new WebhookVerificationError('Malformed signature header');
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, payload), 'hex');
+  const received = Buffer.from(match[1], 'hex');
+
+  if (!timingSafeEqual(expected, received)) {
+    throw new WebhookVerificationError('Signature mismatch');
+  }
+  return received.toString('hex');
+}
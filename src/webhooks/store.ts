@@ -0,0 +1,88 @@
+import { randomUUID } from 'node:crypto';
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+export type ExtractionType = 'oc' | 'csf' | 'cfdi';
+
+export interface ExtractionResultRecord {
+  id: string;
+  rfc: string;
+  type: ExtractionType;
+  receivedAt: string;
+  payload: unknown;
+}
+
+/** Taxo task ID echoed in the webhook payload, when it has one. */
+export function resultTaskId(record: ExtractionResultRecord): string | undefined {
+  const taskId =
+    typeof record.payload === 'object' && record.payload !== null
+      ? (record.payload as Record<string, unknown>).task_id
+      : undefined;
+  return typeof taskId === 'string' || typeof taskId === 'number' ? String(taskId) : undefined;
+}
+
+export interface ExtractionResultQuery {
+  rfc?: string;
+  type?: ExtractionType;
+  limit?: number;
+}
+
+/**
+ * Keeps extraction results delivered by Taxo webhooks. When a file path is
+ * given, records are appended to it as JSON lines and reloaded on start, so the
+ * stdio server can read results received by a separately running HTTP server.
+ */
+export class ExtractionResultStore {
+  private records: ExtractionResultRecord[] = [];
+
+  constructor(private filePath?: string) {
+    this.load();
+  }
+
+  add(record: Omit<ExtractionResultRecord, 'id' | 'receivedAt'>): ExtractionResultRecord {
+    const stored: ExtractionResultRecord = {
+      id: randomUUID(),
+      receivedAt: new Date().toISOString(),
+      ...record,
+      rfc: record.rfc.toUpperCase(),
+    };
+
+    this.records.push(stored);
+    if (this.filePath) {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      appendFileSync(this.filePath, `${JSON.stringify(stored)}\n`);
+    }
+    return stored;
+  }
+
+  /** Returns matching records, newest first. */
+  query(query: ExtractionResultQuery = {}): ExtractionResultRecord[] {
+    // Pick up deliveries written by other processes sharing the file
+    this.load();
+
+    const rfc = query.rfc?.toUpperCase();
+    const matches = this.records
+      .filter((record) => !rfc || record.rfc === rfc)
+      .filter((record) => !query.type || record.type === query.type)
+      .reverse();
+
+    return query.limit ? matches.slice(0, query.limit) : matches;
+  }
+
+  private load(): void {
+    if (!this.filePath || !existsSync(this.filePath)) {
+      return;
+    }
+
+    this.records = readFileSync(this.filePath, 'utf8')
+      .split('\n')
+      .filter((line) => line.trim())
+      .flatMap((line) => {
+        try {
+          return [JSON.parse(line) as ExtractionResultRecord];
+        } catch {
+          return [];
+        }
+      });
+  }
+}
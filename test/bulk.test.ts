@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { BulkConfirmationError, BulkConfirmationStore } from '../src/jobs/confirmations.js';
+import { confirmAccountantExtraction } from '../src/tools/bulk.js';
+import { ToolContext } from '../src/tools/index.js';
+
+const TOOL = 'extract_tax_status_by_accountant';
+const PLAN = {
+  operation: 'Tax status certificate extraction',
+  taxpayerCount: null,
+  satRequestsPerTaxpayer: 1,
+};
+
+let context: ToolContext;
+let runs: string[];
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: Date.parse('2025-04-01T12:00:00Z') });
+  runs = [];
+  context = {
+    confirmations: new BulkConfirmationStore(),
+    defaultAccountantId: '1001',
+  } as unknown as ToolContext;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const extract = (input: { accountantId?: string; confirmationToken?: string }, tool = TOOL) =>
+  confirmAccountantExtraction(context, tool, input, PLAN, async (accountantId) => {
+    runs.push(accountantId);
+    return { accountantId };
+  });
+
+async function dryRun(input: { accountantId?: string } = {}): Promise<string> {
+  const plan = await extract(input);
+  if (!('dryRun' in plan)) {
+    throw new Error('Expected a dry run');
+  }
+  return plan.confirmationToken;
+}
+
+describe('confirmAccountantExtraction', () => {
+  it('returns a plan and triggers nothing without a token', async () => {
+    const plan = await extract({});
+
+    expect(plan).toMatchObject({
+      dryRun: true,
+      scope: 'accountant',
+      accountantId: '1001',
+      estimatedSatRequests: null,
+    });
+    expect(runs).toEqual([]);
+  });
+
+  it('runs once with the token from the dry run', async () => {
+    const confirmationToken = await dryRun();
+
+    await expect(extract({ confirmationToken })).resolves.toEqual({ accountantId: '1001' });
+    await expect(extract({ confirmationToken })).rejects.toThrow(/already used/);
+    expect(runs).toEqual(['1001']);
+  });
+
+  it('refuses a token issued for another tool or accountant', async () => {
+    const confirmationToken = await dryRun();
+
+    await expect(
+      extract({ confirmationToken }, 'extract_compliance_opinion_by_accountant')
+    ).rejects.toThrow(`Confirmation token was issued for ${TOOL} with different arguments`);
+    const forDefault = await dryRun();
+    await expect(extract({ accountantId: '2002', confirmationToken: forDefault })).rejects.toThrow(
+      BulkConfirmationError
+    );
+    expect(runs).toEqual([]);
+  });
+
+  it('binds the token to the accountant the default resolved to', async () => {
+    const confirmationToken = await dryRun();
+    context.defaultAccountantId = '2002';
+
+    await expect(extract({ confirmationToken })).rejects.toThrow(/different arguments/);
+
+    // Naming the same accountant explicitly matches the defaulted dry run
+    context.defaultAccountantId = '1001';
+    const defaulted = await dryRun();
+    await expect(extract({ accountantId: '1001', confirmationToken: defaulted })).resolves.toEqual({
+      accountantId: '1001',
+    });
+  });
+
+  it('refuses an expired token', async () => {
+    const confirmationToken = await dryRun();
+
+    vi.advanceTimersByTime(5 * 60 * 1000);
+
+    await expect(extract({ confirmationToken })).rejects.toThrow(/expired/);
+    expect(runs).toEqual([]);
+  });
+});
@@ -0,0 +1,86 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { MOCK_TOKEN } from '../src/mock/fixtures.js';
+import { callTool, MockTaxo, mockEnv, OpenClient, openClient, startMock } from './helpers.js';
+
+const CIEC = 'Ciec-Secreta-2025';
+
+// Calls made while recording and again while replaying
+const CALLS: [string, Record<string, unknown>][] = [
+  ['get_categories', {}],
+  ['get_compliance_opinion', { rfc: 'EKU9003173C9' }],
+  ['get_monthly_tax_report', { rfc: 'EKU9003173C9', year: '2025', month: '03' }],
+  ['create_taxpayer', { accountantId: '1001', rfc: 'XOJI740919U48', ciec: CIEC }],
+];
+
+describe('cassettes', () => {
+  let dir: string;
+  let mock: MockTaxo;
+  const recorded: unknown[] = [];
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'taxo-cassettes-'));
+    mock = await startMock();
+
+    let server: OpenClient | undefined;
+    try {
+      server = await openClient(
+        'stdio',
+        mockEnv(mock, { TAXO_MX_CASSETTE_MODE: 'record', TAXO_MX_CASSETTE_DIR: dir })
+      );
+      for (const [name, args] of CALLS) {
+        const { isError, body } = await callTool(server.client, name, args);
+        expect(isError, `${name} while recording`).toBe(false);
+        recorded.push(body);
+      }
+    } finally {
+      await server?.close();
+      // Replays below run with nothing listening at the Taxo base URLs
+      await mock.close();
+    }
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes neither the token nor the CIEC to disk', () => {
+    const files = readdirSync(dir);
+    expect(files).toHaveLength(CALLS.length);
+
+    for (const file of files) {
+      const content = readFileSync(join(dir, file), 'utf8');
+      expect(content).not.toContain(MOCK_TOKEN);
+      expect(content).not.toContain(CIEC);
+    }
+
+    const created = files.find((file) => file.includes('accountant_1001_clients'));
+    expect(JSON.parse(readFileSync(join(dir, created!), 'utf8')).request.body).toEqual({
+      rfc: 'XOJI740919U48',
+      ciec: '[REDACTED]',
+    });
+  });
+
+  it('replays the recorded responses without the network', async () => {
+    const server = await openClient(
+      'stdio',
+      mockEnv(mock, { TAXO_MX_CASSETTE_MODE: 'replay', TAXO_MX_CASSETTE_DIR: dir })
+    );
+    try {
+      for (const [index, [name, args]] of CALLS.entries()) {
+        const { isError, body } = await callTool(server.client, name, args);
+        expect(isError, `${name} while replaying`).toBe(false);
+        expect(body).toEqual(recorded[index]);
+      }
+
+      const miss = await callTool(server.client, 'get_contacts', { rfc: 'EKU9003173C9' });
+      expect(miss.isError).toBe(true);
+      expect(miss.body.message).toMatch(/No recorded Taxo response for GET/);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,119 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+
+import { CfdiParseError, parseCfdi } from '../src/api/cfdi.js';
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+
+describe('parseCfdi', () => {
+  it('parses a Nómina 1.2 payroll CFDI', () => {
+    const cfdi = parseCfdi(fixture('nomina.xml'));
+
+    expect(cfdi).toMatchObject({
+      version: '4.0',
+      tipoDeComprobante: 'N',
+      total: 13109.6,
+      emisor: { rfc: 'EKU9003173C9' },
+      receptor: { rfc: 'XOJI740919U48', usoCFDI: 'CN01' },
+      timbreFiscalDigital: { uuid: 'B3F1C2D4-5A6B-4C7D-8E9F-0A1B2C3D4E5F' },
+    });
+    expect(cfdi.conceptos).toHaveLength(1);
+    expect(cfdi.nomina).toHaveLength(1);
+
+    const [nomina] = cfdi.nomina!;
+    expect(nomina).toMatchObject({
+      version: '1.2',
+      tipoNomina: 'O',
+      numDiasPagados: 15,
+      totalPercepciones: 15000,
+      totalDeducciones: 2390.4,
+      totalOtrosPagos: 500,
+      registroPatronal: 'Y5012345106',
+      receptor: { Curp: 'XOJI740919MJCDMN07', NumEmpleado: '120' },
+    });
+    // Concepto here is an attribute, not the repeated cfdi:Concepto node
+    expect(nomina.percepciones).toEqual([
+      {
+        tipo: '001',
+        clave: '001',
+        concepto: 'Sueldo',
+        importe: undefined,
+        importeGravado: 14000,
+        importeExento: 0,
+      },
+      {
+        tipo: '029',
+        clave: '029',
+        concepto: 'Vales de despensa',
+        importe: undefined,
+        importeGravado: 0,
+        importeExento: 1000,
+      },
+    ]);
+    expect(nomina.deducciones.map((line) => [line.concepto, line.importe])).toEqual([
+      ['ISR', 2000],
+      ['IMSS', 390.4],
+    ]);
+    expect(nomina.otrosPagos).toEqual([
+      expect.objectContaining({ tipo: '002', concepto: 'Subsidio para el empleo', importe: 500 }),
+    ]);
+  });
+
+  it('parses a Pagos 2.0 payment CFDI', () => {
+    const cfdi = parseCfdi(fixture('pagos20.xml'));
+
+    expect(cfdi.tipoDeComprobante).toBe('P');
+    expect(cfdi.pagos).toEqual({
+      version: '2.0',
+      totales: {
+        totalTrasladosBaseIVA16: 12500,
+        totalTrasladosImpuestoIVA16: 2000,
+        montoTotalPagos: 14500,
+      },
+      pagos: [
+        {
+          fechaPago: '2025-04-10T10:30:00',
+          formaDePagoP: '03',
+          monedaP: 'MXN',
+          tipoCambioP: 1,
+          monto: 14500,
+          doctosRelacionados: [
+            {
+              idDocumento: '0B1A3E0C-7F9D-4C55-9D1E-2A7C8E4F6B10',
+              serie: 'A',
+              folio: '310',
+              monedaDR: 'MXN',
+              equivalenciaDR: 1,
+              metodoDePagoDR: undefined,
+              numParcialidad: 1,
+              impSaldoAnt: 29000,
+              impPagado: 14500,
+              impSaldoInsoluto: 14500,
+              objetoImpDR: '02',
+              impuestos: {
+                totalImpuestosTrasladados: undefined,
+                totalImpuestosRetenidos: undefined,
+                traslados: [
+                  {
+                    base: 12500,
+                    impuesto: '002',
+                    tipoFactor: 'Tasa',
+                    tasaOCuota: 0.16,
+                    importe: 2000,
+                  },
+                ],
+                retenciones: [],
+              },
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('rejects documents that are not CFDI 3.3 or 4.0', () => {
+    expect(() => parseCfdi('<cfdi:Comprobante Version="2.2"/>')).toThrow(CfdiParseError);
+    expect(() => parseCfdi('<factura/>')).toThrow('Missing cfdi:Comprobante root node');
+  });
+});
@@ -0,0 +1,320 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  TaxoMxApiClient,
+  TaxoMxApiError,
+  TaxoMxClientOptions,
+  TaxoMxResponseValidationError,
+  TaxoMxTimeoutError,
+} from '../src/api/client.js';
+import { CACHE_TTLS, ResponseCache } from '../src/api/cache.js';
+import { ConcurrencyLimiter } from '../src/api/limiter.js';
+import { parseRetryAfter } from '../src/api/retry.js';
+
+type Responder = (req: IncomingMessage, res: ServerResponse) => void;
+
+const CATEGORIES = { data: [{ id: 1, name: 'Ventas' }] };
+const QUEUED = { success: true, message: 'Extraction queued', task_id: 1 };
+const RFC = 'EKU9003173C9';
+const opinion = (status: string) => json(200, { rfc: RFC, status });
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}): Responder =>
+  (_req, res) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  };
+
+// Local stand-in for Taxo: answers each request with the next scripted responder.
+// Each test gets its own server so no pooled connection outlives a test.
+let server: Server;
+let baseUrl: string;
+let responders: Responder[];
+let received: { method: string; path: string; at: number }[];
+
+beforeEach(async () => {
+  responders = [];
+  received = [];
+  server = createServer((req, res) => {
+    received.push({ method: req.method ?? '', path: req.url ?? '', at: Date.now() });
+    const respond = responders.shift() ?? json(500, { message: 'No scripted response' });
+    respond(req, res);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function createClient(options: Partial<TaxoMxClientOptions> = {}): TaxoMxApiClient {
+  return new TaxoMxApiClient({
+    token: 'test-token',
+    appBaseUrl: baseUrl,
+    demoBaseUrl: baseUrl,
+    cacheEnabled: false,
+    retryBaseDelayMs: 10,
+    ...options,
+  });
+}
+
+const gap = (index: number) => received[index].at - received[index - 1].at;
+
+describe('TaxoMxApiClient timeouts', () => {
+  it('raises TaxoMxTimeoutError when an attempt runs out of time', async () => {
+    // Never answers; afterEach drops the connection
+    responders.push(() => {});
+
+    const error = await createClient({ timeoutMs: 100, maxRetries: 0 })
+      .getCategories()
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(TaxoMxTimeoutError);
+    expect(error).toMatchObject({ statusCode: 408 });
+  });
+
+  it('retries a GET that timed out', async () => {
+    responders.push(() => {}, json(200, CATEGORIES));
+
+    const categories = await createClient({ timeoutMs: 100, maxRetries: 1 }).getCategories();
+
+    expect(categories).toEqual(CATEGORIES.data);
+    expect(received).toHaveLength(2);
+  });
+});
+
+describe('TaxoMxApiClient response validation', () => {
+  it('reports a malformed 200 response as a 502', async () => {
+    responders.push(json(200, 'malformed'));
+
+    const error = await createClient()
+      .getCategories()
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(TaxoMxResponseValidationError);
+    expect(error).toMatchObject({ statusCode: 502 });
+  });
+});
+
+describe('TaxoMxApiClient retries', () => {
+  it('retries a GET on 502, 503 and 504', async () => {
+    responders.push(
+      json(502, { message: 'Bad Gateway' }),
+      json(503, { message: 'Unavailable' }),
+      json(504, { message: 'Gateway Timeout' }),
+      json(200, CATEGORIES)
+    );
+
+    const categories = await createClient({ maxRetries: 3 }).getCategories();
+
+    expect(categories).toEqual(CATEGORIES.data);
+    expect(received).toHaveLength(4);
+  });
+
+  it('returns the last error once GET retries run out', async () => {
+    responders.push(json(503, { message: 'Unavailable' }), json(503, { message: 'Unavailable' }));
+
+    const error = await createClient({ maxRetries: 1 })
+      .getCategories()
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(TaxoMxApiError);
+    expect(error).toMatchObject({ statusCode: 503 });
+    expect(received).toHaveLength(2);
+  });
+
+  it.each([502, 503, 504])('does not retry a POST on %i', async (status) => {
+    responders.push(json(status, { message: 'Failed' }), json(202, QUEUED));
+
+    const error = await createClient({ maxRetries: 2 })
+      .extractComplianceOpinionByRfc('EKU9003173C9')
+      .catch((caught: unknown) => caught);
+
+    expect(error).toMatchObject({ statusCode: status });
+    expect(received).toHaveLength(1);
+  });
+
+  it('does not retry a POST that timed out', async () => {
+    responders.push(() => {}, json(202, QUEUED));
+
+    const error = await createClient({ timeoutMs: 100, maxRetries: 2 })
+      .extractComplianceOpinionByRfc('EKU9003173C9')
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(TaxoMxTimeoutError);
+    expect(received).toHaveLength(1);
+  });
+
+  it('retries a POST on 429', async () => {
+    responders.push(json(429, { message: 'Too Many Requests' }), json(202, QUEUED));
+
+    const response = await createClient().extractComplianceOpinionByRfc('EKU9003173C9');
+
+    expect(response).toMatchObject({ task_id: 1 });
+    expect(received.map((request) => request.method)).toEqual(['POST', 'POST']);
+  });
+});
+
+describe('TaxoMxApiClient Retry-After', () => {
+  it('waits the number of seconds in Retry-After', async () => {
+    responders.push(
+      json(429, { message: 'Slow down' }, { 'Retry-After': '1' }),
+      json(200, CATEGORIES)
+    );
+
+    await createClient().getCategories();
+
+    expect(received).toHaveLength(2);
+    expect(gap(1)).toBeGreaterThanOrEqual(950);
+  });
+
+  it('waits until the HTTP date in Retry-After', async () => {
+    // HTTP dates have whole seconds, so the wait is between one and two seconds
+    const retryAt = new Date(Date.now() + 2_000).toUTCString();
+    responders.push(
+      json(429, { message: 'Slow down' }, { 'Retry-After': retryAt }),
+      json(200, CATEGORIES)
+    );
+
+    await createClient().getCategories();
+
+    expect(received).toHaveLength(2);
+    expect(gap(1)).toBeGreaterThanOrEqual(950);
+    expect(gap(1)).toBeLessThan(2_500);
+  });
+
+  it('frees its concurrency slot while waiting for Retry-After', async () => {
+    responders.push(
+      json(429, { message: 'Slow down' }, { 'Retry-After': '1' }),
+      json(200, CATEGORIES),
+      json(200, CATEGORIES)
+    );
+    const limiter = new ConcurrencyLimiter(1);
+    const finished: string[] = [];
+
+    const waiting = createClient({ limiter, token: 'first-token' })
+      .getCategories()
+      .then(() => finished.push('waiting'));
+    const other = createClient({ limiter, token: 'second-token' })
+      .getCategories()
+      .then(() => finished.push('other'));
+    await Promise.all([waiting, other]);
+
+    expect(finished).toEqual(['other', 'waiting']);
+    expect(received).toHaveLength(3);
+    expect(gap(1)).toBeLessThan(500);
+    expect(limiter.activeCount).toBe(0);
+  });
+
+  it('gives up when Retry-After is longer than the maximum delay', async () => {
+    responders.push(
+      json(429, { message: 'Slow down' }, { 'Retry-After': '120' }),
+      json(200, CATEGORIES)
+    );
+    const startedAt = Date.now();
+
+    const error = await createClient({ retryMaxDelayMs: 1_000 })
+      .getCategories()
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(TaxoMxApiError);
+    expect(error).toMatchObject({ statusCode: 429 });
+    expect(received).toHaveLength(1);
+    expect(Date.now() - startedAt).toBeLessThan(1_000);
+  });
+});
+
+describe('TaxoMxApiClient response cache', () => {
+  let cache: ResponseCache;
+
+  beforeEach(() => {
+    cache = new ResponseCache();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves repeated reads from the cache until the TTL expires', async () => {
+    // Only the clock is faked, so the stub server still answers
+    vi.useFakeTimers({ toFake: ['Date'] });
+    responders.push(opinion('positive'), opinion('negative'));
+    const client = createClient({ cache });
+
+    const first = await client.getComplianceOpinion(RFC);
+    const cached = await client.getComplianceOpinion(RFC);
+    vi.setSystemTime(Date.now() + CACHE_TTLS.complianceOpinion);
+    const expired = await client.getComplianceOpinion(RFC);
+
+    expect([first.status, cached.status, expired.status]).toEqual([
+      'positive',
+      'positive',
+      'negative',
+    ]);
+    expect(received).toHaveLength(2);
+  });
+
+  it('keeps each token’s responses apart', async () => {
+    responders.push(opinion('positive'), opinion('negative'));
+
+    const own = await createClient({ cache, token: 'first-token' }).getComplianceOpinion(RFC);
+    const other = await createClient({ cache, token: 'second-token' }).getComplianceOpinion(RFC);
+
+    expect([own.status, other.status]).toEqual(['positive', 'negative']);
+    expect(received).toHaveLength(2);
+  });
+
+  it('drops the RFC’s cached documents after an extraction request', async () => {
+    responders.push(
+      opinion('positive'),
+      json(200, { rfc: RFC, status: 'active' }),
+      json(202, QUEUED),
+      opinion('negative')
+    );
+    const client = createClient({ cache });
+
+    await client.getComplianceOpinion(RFC);
+    await client.getTaxStatus(RFC);
+    await client.extractComplianceOpinionByRfc(RFC);
+    const refreshed = await client.getComplianceOpinion(RFC);
+    const taxStatus = await client.getTaxStatus(RFC);
+
+    expect(refreshed.status).toBe('negative');
+    // Other extraction types stay cached
+    expect(taxStatus.status).toBe('active');
+    expect(received.map((request) => request.method)).toEqual(['GET', 'GET', 'POST', 'GET']);
+  });
+
+  it('bypasses and refreshes the cache with refresh: true', async () => {
+    responders.push(opinion('positive'), opinion('negative'));
+    const client = createClient({ cache });
+
+    await client.getComplianceOpinion(RFC);
+    const refreshed = await client.getComplianceOpinion(RFC, { refresh: true });
+    const cached = await client.getComplianceOpinion(RFC);
+
+    expect([refreshed.status, cached.status]).toEqual(['negative', 'negative']);
+    expect(received).toHaveLength(2);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2025-04-01T12:00:00Z');
+
+  it('reads delta seconds', () => {
+    expect(parseRetryAfter('3', now)).toBe(3_000);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    expect(parseRetryAfter('Tue, 01 Apr 2025 12:00:05 GMT', now)).toBe(5_000);
+    expect(parseRetryAfter('Tue, 01 Apr 2025 11:59:00 GMT', now)).toBe(0);
+  });
+
+  it('ignores missing or unreadable values', () => {
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+});
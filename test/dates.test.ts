@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+
+import { isoDateField, refineDateRange, splitIntoMonthlyWindows } from '../src/validation/dates.js';
+
+describe('splitIntoMonthlyWindows', () => {
+  it('splits at month ends, keeping partial first and last months', () => {
+    expect(splitIntoMonthlyWindows('2025-01-15', '2025-03-10')).toEqual([
+      { startDate: '2025-01-15', endDate: '2025-01-31' },
+      { startDate: '2025-02-01', endDate: '2025-02-28' },
+      { startDate: '2025-03-01', endDate: '2025-03-10' },
+    ]);
+  });
+
+  it('ends February on the 29th in leap years', () => {
+    expect(splitIntoMonthlyWindows('2024-02-01', '2024-03-01')).toEqual([
+      { startDate: '2024-02-01', endDate: '2024-02-29' },
+      { startDate: '2024-03-01', endDate: '2024-03-01' },
+    ]);
+  });
+
+  it('crosses the year end', () => {
+    expect(splitIntoMonthlyWindows('2024-12-31', '2025-01-01')).toEqual([
+      { startDate: '2024-12-31', endDate: '2024-12-31' },
+      { startDate: '2025-01-01', endDate: '2025-01-01' },
+    ]);
+  });
+
+  it('returns a single window for a single day', () => {
+    expect(splitIntoMonthlyWindows('2025-04-30', '2025-04-30')).toEqual([
+      { startDate: '2025-04-30', endDate: '2025-04-30' },
+    ]);
+  });
+
+  it('rejects inverted ranges and impossible dates', () => {
+    expect(() => splitIntoMonthlyWindows('2025-03-01', '2025-02-28')).toThrow(
+      'Invalid date range 2025-03-01 to 2025-02-28'
+    );
+    expect(() => splitIntoMonthlyWindows('2025-02-29', '2025-03-31')).toThrow(
+      'Invalid date range'
+    );
+  });
+});
+
+describe('refineDateRange', () => {
+  const schema = z
+    .object({ startDate: isoDateField, endDate: isoDateField })
+    .superRefine(refineDateRange);
+
+  const messages = (range: { startDate: string; endDate: string }) => {
+    const parsed = schema.safeParse(range);
+    return parsed.success ? [] : parsed.error.issues.map((issue) => issue.message);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: Date.parse('2025-04-15T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts an ordered range ending today, including a single day', () => {
+    expect(messages({ startDate: '2025-01-01', endDate: '2025-04-15' })).toEqual([]);
+    expect(messages({ startDate: '2025-04-15', endDate: '2025-04-15' })).toEqual([]);
+  });
+
+  it('rejects an inverted range', () => {
+    expect(messages({ startDate: '2025-03-01', endDate: '2025-02-01' })).toEqual([
+      'endDate 2025-02-01 is before startDate 2025-03-01',
+    ]);
+  });
+
+  it('rejects an end date in the future', () => {
+    expect(messages({ startDate: '2025-04-01', endDate: '2025-04-16' })).toEqual([
+      'endDate 2025-04-16 is in the future (today is 2025-04-15)',
+    ]);
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(messages({ startDate: '2023-02-29', endDate: '2023-03-01' })).toEqual([
+      'Must be a valid date in YYYY-MM-DD format',
+    ]);
+  });
+});
@@ -0,0 +1,197 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+
+import {
+  callTool,
+  MockTaxo,
+  mockEnv,
+  OpenClient,
+  openClient,
+  startMock,
+  Transport,
+} from './helpers.js';
+
+const TRANSPORTS: Transport[] = ['stdio', 'http'];
+
+describe.each(TRANSPORTS)('%s transport against the mock Taxo API', (transport) => {
+  let mock: MockTaxo;
+  let server: OpenClient;
+
+  beforeAll(async () => {
+    mock = await startMock();
+    // Short timeout and one retry keep the fault scenarios fast
+    server = await openClient(
+      transport,
+      mockEnv(mock, { TAXO_MX_TIMEOUT_MS: '300', TAXO_MX_MAX_RETRIES: '1' })
+    );
+  });
+
+  afterEach(async () => {
+    await mock.reset();
+  });
+
+  afterAll(async () => {
+    await server?.close();
+    await mock?.close();
+  });
+
+  it('answers tool calls from the mock', async () => {
+    const { isError, body } = await callTool<{ rfc: string; status: string }>(
+      server.client,
+      'get_compliance_opinion',
+      { rfc: 'EKU9003173C9' }
+    );
+
+    expect(isError).toBe(false);
+    expect(body).toMatchObject({ rfc: 'EKU9003173C9', status: 'positive' });
+  });
+
+  it('waits for Retry-After on 429 and then succeeds', async () => {
+    await mock.addFault({
+      path: '/api/categorization/categories',
+      status: 429,
+      retryAfterSeconds: 1,
+      times: 1,
+    });
+
+    const { isError, body } = await callTool<unknown[]>(server.client, 'get_categories');
+
+    expect(isError).toBe(false);
+    expect(body).toHaveLength(6);
+
+    const attempts = (await mock.requests()).filter((request) =>
+      request.path.startsWith('/api/categorization/categories')
+    );
+    expect(attempts.map((request) => request.status)).toEqual([429, 200]);
+    const waited = Date.parse(attempts[1].at) - Date.parse(attempts[0].at);
+    expect(waited).toBeGreaterThanOrEqual(900);
+  });
+
+  it('reports a timeout once every attempt runs out of time', async () => {
+    await mock.addFault({ path: '/api/categorization/categories', delayMs: 1_000 });
+
+    const { isError, body } = await callTool(server.client, 'get_categories');
+
+    expect(isError).toBe(true);
+    expect(body).toMatchObject({ statusCode: 408 });
+    expect(body.message).toMatch(/timed out after 300ms/);
+  });
+
+  it('retries a GET that timed out once', async () => {
+    await mock.addFault({ path: '/api/categorization/categories', delayMs: 1_000, times: 1 });
+
+    const { isError, body } = await callTool<unknown[]>(server.client, 'get_categories');
+
+    expect(isError).toBe(false);
+    expect(body).toHaveLength(6);
+  });
+
+  it('rejects a malformed response body', async () => {
+    await mock.addFault({ path: '/api/v1/contacts', malformed: true });
+
+    const { isError, body } = await callTool(server.client, 'get_contacts', {
+      rfc: 'EKU9003173C9',
+    });
+
+    expect(isError).toBe(true);
+    expect(body).toMatchObject({ statusCode: 502 });
+    expect(body.message).toMatch(/Unexpected response shape/);
+  });
+});
+
+describe('tool listings', () => {
+  let mock: MockTaxo;
+  const servers: OpenClient[] = [];
+
+  beforeAll(async () => {
+    mock = await startMock();
+    for (const transport of TRANSPORTS) {
+      servers.push(await openClient(transport, mockEnv(mock)));
+    }
+  });
+
+  afterAll(async () => {
+    for (const server of servers) {
+      await server.close();
+    }
+    await mock?.close();
+  });
+
+  it('are identical over stdio and HTTP apart from the account tools', async () => {
+    const [stdio, http] = await Promise.all(
+      servers.map(async (server) => (await server.client.listTools()).tools)
+    );
+    const accountTools = ['list_accounts', 'use_account'];
+
+    expect(stdio.map((tool) => tool.name)).toEqual(expect.arrayContaining(accountTools));
+    expect(http).toEqual(stdio.filter((tool) => !accountTools.includes(tool.name)));
+  });
+
+  it('reports account tools as unknown over HTTP', async () => {
+    const { isError, body } = await callTool(servers[1].client, 'list_accounts');
+
+    expect(isError).toBe(true);
+    expect(body.message).toBe('Unknown tool: list_accounts');
+  });
+});
+
+describe.each(TRANSPORTS)('%s resources and prompts under a tool policy', (transport) => {
+  let mock: MockTaxo;
+  let server: OpenClient;
+
+  beforeAll(async () => {
+    mock = await startMock();
+    server = await openClient(
+      transport,
+      mockEnv(mock, { TAXO_MX_DENIED_TOOLS: 'get_categories,get_tax_status' })
+    );
+  });
+
+  afterAll(async () => {
+    await server?.close();
+    await mock?.close();
+  });
+
+  it('lists only resources whose tools are enabled', async () => {
+    const { resources } = await server.client.listResources();
+    const { resourceTemplates } = await server.client.listResourceTemplates();
+
+    expect(resources).toEqual([]);
+    expect(resourceTemplates.map((template) => template.uriTemplate)).toEqual([
+      'taxo://taxpayer/{rfc}/compliance-opinion',
+      'taxo://taxpayer/{rfc}/tax-report/{year}/{month}',
+      'taxo://taxpayer/{rfc}/contacts',
+    ]);
+  });
+
+  it('refuses to read resources whose tools are disabled', async () => {
+    await expect(server.client.readResource({ uri: 'taxo://categories' })).rejects.toThrow(
+      'Resource taxo://categories is disabled on this server'
+    );
+    await expect(
+      server.client.readResource({ uri: 'taxo://taxpayer/EKU9003173C9/tax-status' })
+    ).rejects.toThrow('is disabled on this server');
+
+    const { contents } = await server.client.readResource({
+      uri: 'taxo://taxpayer/EKU9003173C9/compliance-opinion',
+    });
+    expect(JSON.parse(contents[0].text as string)).toMatchObject({ status: 'positive' });
+  });
+
+  it('lists only prompts whose tools are all enabled', async () => {
+    const { prompts } = await server.client.listPrompts();
+
+    expect(prompts.map((prompt) => prompt.name)).toEqual(['monthly_close', 'onboard_taxpayer']);
+  });
+
+  it('refuses prompts that rely on disabled tools', async () => {
+    await expect(
+      server.client.getPrompt({ name: 'client_health_check', arguments: { rfc: 'EKU9003173C9' } })
+    ).rejects.toThrow('Prompt client_health_check is disabled on this server');
+
+    const { messages } = await server.client.getPrompt({
+      name: 'onboard_taxpayer',
+      arguments: { accountantId: '1001' },
+    });
+    expect(messages[0].content).toMatchObject({ type: 'text' });
+  });
+});
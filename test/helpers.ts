@@ -0,0 +1,180 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import { createServer } from 'node:net';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+
+import { MockFault, startMockTaxoServer } from '../src/mock/app.js';
+import { MOCK_TOKEN } from '../src/mock/fixtures.js';
+
+// End-to-end tests run the built entry points, like an MCP client would
+const DIST = fileURLToPath(new URL('../dist', import.meta.url));
+
+export type Transport = 'stdio' | 'http';
+
+export interface MockTaxo {
+  url: string;
+  addFault: (fault: MockFault) => Promise<void>;
+  requests: () => Promise<{ method: string; path: string; status: number; at: string }[]>;
+  reset: () => Promise<void>;
+  close: () => Promise<void>;
+}
+
+export async function startMock(
+  options: Parameters<typeof startMockTaxoServer>[0] = {}
+): Promise<MockTaxo> {
+  const { url, close } = await startMockTaxoServer(options);
+  return {
+    url,
+    close,
+    addFault: async (fault) => {
+      const response = await fetch(`${url}/__mock/faults`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(fault),
+      });
+      if (!response.ok) {
+        throw new Error(`Mock rejected fault: ${await response.text()}`);
+      }
+    },
+    requests: async () => (await (await fetch(`${url}/__mock/requests`)).json()).requests,
+    reset: async () => {
+      await fetch(`${url}/__mock/reset`, { method: 'POST' });
+    },
+  };
+}
+
+/** Settings pointing an MCP server at the mock, with the cache off so every call reaches it. */
+export function mockEnv(mock: MockTaxo, extra: Record<string, string> = {}): Record<string, string> {
+  return {
+    PATH: process.env.PATH ?? '',
+    TAXO_MX_APP_BASE_URL: mock.url,
+    TAXO_MX_DEMO_BASE_URL: mock.url,
+    TAXO_MX_CACHE: 'false',
+    TAXO_MX_LOG_LEVEL: 'error',
+    ...extra,
+  };
+}
+
+export async function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as { port: number };
+      server.close(() => resolve(port));
+    });
+    server.on('error', reject);
+  });
+}
+
+export interface HttpServer {
+  url: string;
+  stop: () => Promise<void>;
+}
+
+export async function startHttpServer(
+  env: Record<string, string>,
+  port?: number
+): Promise<HttpServer> {
+  port ??= await freePort();
+  const child: ChildProcess = spawn(process.execPath, [join(DIST, 'index.js')], {
+    env: { ...env, PORT: String(port) },
+    stdio: ['ignore', 'ignore', 'inherit'],
+  });
+  const url = `http://127.0.0.1:${port}`;
+
+  const stop = () =>
+    new Promise<void>((resolve) => {
+      if (child.exitCode !== null) {
+        resolve();
+        return;
+      }
+      child.once('exit', () => resolve());
+      child.kill();
+    });
+
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if (child.exitCode !== null) {
+      throw new Error(`HTTP server exited with code ${child.exitCode}`);
+    }
+    try {
+      const response = await fetch(`${url}/health`);
+      if (response.ok) {
+        return { url, stop };
+      }
+    } catch {
+      // Not listening yet
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+
+  await stop();
+  throw new Error('HTTP server did not start');
+}
+
+/** Connects an MCP client over stdio to a spawned `dist/stdio.js`. */
+export async function connectStdio(
+  env: Record<string, string>,
+  args: string[] = ['--token', MOCK_TOKEN]
+): Promise<Client> {
+  const client = new Client({ name: 'e2e', version: '1.0.0' });
+  await client.connect(
+    new StdioClientTransport({
+      command: process.execPath,
+      args: [join(DIST, 'stdio.js'), ...args],
+      env,
+      stderr: 'ignore',
+    })
+  );
+  return client;
+}
+
+/** Connects an MCP client to the Streamable HTTP endpoint with a bearer token. */
+export async function connectHttp(serverUrl: string, token = MOCK_TOKEN): Promise<Client> {
+  const client = new Client({ name: 'e2e', version: '1.0.0' });
+  await client.connect(
+    new StreamableHTTPClientTransport(new URL('/mcp', serverUrl), {
+      requestInit: { headers: { Authorization: `Bearer ${token}` } },
+    })
+  );
+  return client;
+}
+
+/** Calls a tool and parses the JSON text it returns. */
+export async function callTool<T = Record<string, unknown>>(
+  client: Client,
+  name: string,
+  args: Record<string, unknown> = {}
+): Promise<{ isError: boolean; body: T }> {
+  const result = await client.callTool({ name, arguments: args });
+  const [content] = result.content as { type: string; text: string }[];
+  return { isError: result.isError === true, body: JSON.parse(content.text) as T };
+}
+
+export interface OpenClient {
+  client: Client;
+  close: () => Promise<void>;
+}
+
+/** Starts the server for a transport, pointed at `env`, and connects a client to it. */
+export async function openClient(
+  transport: Transport,
+  env: Record<string, string>
+): Promise<OpenClient> {
+  if (transport === 'stdio') {
+    const client = await connectStdio(env);
+    return { client, close: () => client.close() };
+  }
+
+  const server = await startHttpServer(env);
+  const client = await connectHttp(server.url);
+  return {
+    client,
+    close: async () => {
+      await client.close();
+      await server.stop();
+    },
+  };
+}
@@ -0,0 +1,227 @@
+import { describe, expect, it } from 'vitest';
+
+import { Invoice, MonthlyTaxReport } from '../src/api/models.js';
+import { compareWithReport, computeIvaSummary, missingRelatedInvoices } from '../src/tax/iva.js';
+
+const RFC = 'EKU9003173C9';
+const CUSTOMER = 'XOJI740919U48';
+const SUPPLIER = 'AAA010101AAA';
+
+const issued = (invoice: Partial<Invoice> & { uuid: string }): Invoice => ({
+  date: '2025-03-15T10:00:00',
+  type: 'I',
+  issuer_rfc: RFC,
+  receiver_rfc: CUSTOMER,
+  total: 0,
+  ...invoice,
+});
+
+const received = (invoice: Partial<Invoice> & { uuid: string }): Invoice => ({
+  ...issued(invoice),
+  issuer_rfc: SUPPLIER,
+  receiver_rfc: RFC,
+  ...invoice,
+});
+
+const summarize = (invoices: Invoice[], related?: Invoice[]) =>
+  computeIvaSummary({ rfc: RFC, year: '2025', month: '3', invoices, related });
+
+describe('computeIvaSummary', () => {
+  it('counts PUE invoices in the month they are issued', () => {
+    const summary = summarize([
+      issued({ uuid: 'a', payment_type: 'PUE', subtotal: 1000, iva: 160, total: 1160 }),
+      received({ uuid: 'b', payment_type: 'PUE', subtotal: 300, iva: 48, total: 348 }),
+      // No IVA from Taxo: derived from the totals
+      received({ uuid: 'c', payment_type: 'PUE', subtotal: 500, total: 580 }),
+    ]);
+
+    expect(summary.period).toBe('2025-03');
+    expect(summary.iva).toEqual({
+      collected: 160,
+      withheldByCustomers: 0,
+      creditable: 128,
+      withheldFromSuppliers: 0,
+      balance: 32,
+      payable: 32,
+      inFavor: 0,
+    });
+    expect(summary.documents.map((document) => [document.treatment, document.estimated])).toEqual([
+      ['pue', undefined],
+      ['pue', undefined],
+      ['pue', true],
+    ]);
+  });
+
+  it('leaves PPD invoices pending until a payment complement arrives', () => {
+    const summary = summarize([
+      issued({ uuid: 'a', payment_type: 'PPD', subtotal: 2000, iva: 320, total: 2320 }),
+    ]);
+
+    expect(summary.iva.collected).toBe(0);
+    expect(summary.pendingPpd).toEqual({
+      issued: { count: 1, iva: 320 },
+      received: { count: 0, iva: 0 },
+    });
+    expect(summary.documents[0].treatment).toBe('ppd_pending');
+  });
+
+  it('counts the IVA a payment complement itemises', () => {
+    const summary = summarize([
+      issued({
+        uuid: 'p',
+        type: 'P',
+        related_documents: [{ uuid: 'ppd-1', paid_amount: 1160, iva: 160, iva_withheld: 16 }],
+      }),
+    ]);
+
+    expect(summary.iva).toMatchObject({ collected: 160, withheldByCustomers: 16, balance: 144 });
+    expect(summary.documents[0]).toMatchObject({ treatment: 'payment', iva: 160 });
+    expect(summary.documents[0].estimated).toBeUndefined();
+  });
+
+  it('prorates the original invoice IVA when the complement does not itemise it', () => {
+    const original = received({ uuid: 'PPD-2', payment_type: 'PPD', iva: 160, total: 1160 });
+    const summary = summarize(
+      [
+        received({
+          uuid: 'p',
+          type: 'P',
+          related_documents: [{ uuid: 'ppd-2', paid_amount: 580 }],
+        }),
+      ],
+      [original]
+    );
+
+    expect(summary.iva.creditable).toBe(80);
+    expect(summary.documents[0]).toMatchObject({ treatment: 'payment', iva: 80, estimated: true });
+    expect(summary.warnings).toEqual([]);
+  });
+
+  it('warns when a complement settles an invoice it cannot resolve', () => {
+    const summary = summarize([
+      received({ uuid: 'p', type: 'P', related_documents: [{ uuid: 'gone', paid_amount: 580 }] }),
+    ]);
+
+    expect(summary.iva.creditable).toBe(0);
+    expect(summary.documents[0].note).toBe('Some related invoices could not be resolved');
+    expect(summary.warnings).toEqual(['p: cannot determine the IVA paid on related invoice gone']);
+  });
+
+  it('subtracts credit notes from the side they were issued on', () => {
+    const summary = summarize([
+      issued({ uuid: 'a', payment_type: 'PUE', iva: 160, total: 1160 }),
+      issued({ uuid: 'e1', type: 'E', payment_type: 'PPD', iva: 32, total: 232 }),
+      received({ uuid: 'e2', type: 'E', iva: 16, total: 116 }),
+    ]);
+
+    expect(summary.iva).toMatchObject({ collected: 128, creditable: -16, balance: 144 });
+    expect(summary.pendingPpd.issued.count).toBe(0);
+    expect(summary.documents.slice(1)).toEqual([
+      expect.objectContaining({ treatment: 'credit_note', iva: -32 }),
+      expect.objectContaining({ treatment: 'credit_note', iva: -16 }),
+    ]);
+  });
+
+  it('excludes cancelled invoices', () => {
+    const summary = summarize([
+      issued({ uuid: 'a', payment_type: 'PUE', iva: 160, total: 1160, status: 'Cancelado' }),
+    ]);
+
+    expect(summary.iva.collected).toBe(0);
+    expect(summary.excluded).toEqual({ cancelled: 1, unresolved: 0 });
+    expect(summary.documents[0].treatment).toBe('cancelled');
+  });
+
+  it('converts foreign currency at the invoice exchange rate', () => {
+    const summary = summarize([
+      issued({ uuid: 'usd', currency: 'USD', exchange_rate: 17.5, iva: 16, total: 116 }),
+      received({
+        uuid: 'p',
+        type: 'P',
+        currency: 'EUR',
+        exchange_rate: 20,
+        related_documents: [{ uuid: 'x', iva: 10 }],
+      }),
+      issued({ uuid: 'no-rate', currency: 'USD', iva: 16, total: 116 }),
+    ]);
+
+    expect(summary.iva).toMatchObject({ collected: 280, creditable: 200 });
+    expect(summary.excluded.unresolved).toBe(1);
+    expect(summary.warnings).toEqual(['no-rate: USD invoice without an exchange rate']);
+  });
+
+  it('skips invoices from other months and reports unreadable dates', () => {
+    const summary = summarize([
+      issued({ uuid: 'april', date: '2025-04-01T00:00:00', iva: 160, total: 1160 }),
+      issued({ uuid: 'garbled', date: '15/03/2025', iva: 160, total: 1160 }),
+    ]);
+
+    expect(summary.iva.collected).toBe(0);
+    expect(summary.documents).toEqual([]);
+    expect(summary.excluded.unresolved).toBe(1);
+    expect(summary.warnings).toEqual(['garbled: unreadable date 15/03/2025; skipped']);
+  });
+});
+
+describe('missingRelatedInvoices', () => {
+  it('lists invoices that complements settle without itemised IVA', () => {
+    const missing = missingRelatedInvoices([
+      received({ uuid: 'KNOWN', payment_type: 'PPD', iva: 160, total: 1160 }),
+      received({
+        uuid: 'p',
+        type: 'P',
+        related_documents: [
+          { uuid: 'known', paid_amount: 580 },
+          { uuid: 'itemised', iva: 16 },
+          { uuid: 'missing', paid_amount: 100 },
+        ],
+      }),
+      received({ uuid: 'p2', type: 'p', related_documents: [{ uuid: 'MISSING' }] }),
+      // Credit notes relate to invoices too, but never need them for IVA
+      received({ uuid: 'e', type: 'E', related_documents: [{ uuid: 'other' }] }),
+    ]);
+
+    expect(missing).toEqual(['MISSING']);
+  });
+});
+
+describe('compareWithReport', () => {
+  const computed = summarize([
+    issued({ uuid: 'a', payment_type: 'PUE', iva: 160, total: 1160 }),
+    received({ uuid: 'b', payment_type: 'PUE', iva: 48, total: 348 }),
+  ]).iva;
+
+  it('reads the figures under any of their known names', () => {
+    const report: MonthlyTaxReport = {
+      iva: { iva_trasladado: '160.00', acreditable: 48, a_cargo: 112 },
+    };
+
+    expect(compareWithReport(computed, report)).toEqual({
+      available: true,
+      reported: { collected: 160, creditable: 48, payable: 112 },
+      differences: [],
+    });
+  });
+
+  it('reports each figure that differs, ignoring unreadable values', () => {
+    const report: MonthlyTaxReport = {
+      iva: { trasladado: 160, iva_acreditable: 40.5, saldo: 119.5, saldo_a_favor: 'n/a' },
+    };
+
+    const { reported, differences } = compareWithReport(computed, report);
+
+    expect(reported).toEqual({ collected: 160, creditable: 40.5, balance: 119.5 });
+    expect(differences).toEqual([
+      { figure: 'creditable', computed: 48, reported: 40.5, difference: 7.5 },
+      { figure: 'balance', computed: 112, reported: 119.5, difference: -7.5 },
+    ]);
+  });
+
+  it('finds nothing to compare in a report without an IVA section', () => {
+    expect(compareWithReport(computed, {})).toEqual({
+      available: true,
+      reported: {},
+      differences: [],
+    });
+  });
+});
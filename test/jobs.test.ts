@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { BulkConfirmationError } from '../src/jobs/confirmations.js';
+import { ExtractionJobStore } from '../src/jobs/store.js';
+import { TokenStores } from '../src/jobs/tokenStores.js';
+
+const HOUR = 60 * 60 * 1000;
+const JOB = { rfc: 'EKU9003173C9', type: 'oc' } as const;
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: Date.parse('2025-04-01T12:00:00Z') });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('ExtractionJobStore', () => {
+  it('drops finished jobs past the retention and keeps pending ones', () => {
+    const store = new ExtractionJobStore(60 * 60);
+    const completed = store.create(JOB);
+    const failed = store.create(JOB);
+    const pending = store.create(JOB);
+    store.update(completed.id, { status: 'completed' });
+    store.update(failed.id, { status: 'failed' });
+
+    vi.advanceTimersByTime(2 * HOUR);
+    const recent = store.create(JOB);
+
+    expect(store.list().map((job) => job.id)).toEqual([recent.id, pending.id]);
+  });
+});
+
+describe('TokenStores', () => {
+  let stores: TokenStores;
+
+  beforeEach(() => {
+    stores = new TokenStores(HOUR);
+  });
+
+  afterEach(() => {
+    stores.close();
+  });
+
+  it('creates no stores for tokens that only read', () => {
+    const { jobs, confirmations } = stores.forToken('unknown');
+
+    expect(jobs.list()).toEqual([]);
+    expect(jobs.get('missing')).toBeUndefined();
+    expect(() => confirmations.consume('missing', 'extract_tax_status_all', {})).toThrow(
+      BulkConfirmationError
+    );
+    expect(stores.size).toBe(0);
+  });
+
+  it('shares a token’s jobs between contexts once one records a job', () => {
+    const first = stores.forToken('a');
+    const second = stores.forToken('a');
+
+    const job = first.jobs.create(JOB);
+
+    expect(stores.size).toBe(1);
+    expect(second.jobs.get(job.id)).toEqual(job);
+    expect(stores.forToken('b').jobs.list()).toEqual([]);
+  });
+
+  it('creates stores when a confirmation is issued', () => {
+    const { confirmations } = stores.forToken('a');
+
+    const { token } = confirmations.issue('extract_tax_status_all', {});
+
+    expect(stores.size).toBe(1);
+    expect(() =>
+      stores.forToken('a').confirmations.consume(token, 'extract_tax_status_all', {})
+    ).not.toThrow();
+  });
+
+  it('evicts stores left idle past the timeout', () => {
+    stores.forToken('idle').jobs.create(JOB);
+    stores.forToken('active').jobs.create(JOB);
+
+    vi.advanceTimersByTime(HOUR / 2);
+    stores.forToken('active').jobs.list();
+    vi.advanceTimersByTime(HOUR);
+
+    expect(stores.size).toBe(1);
+    expect(stores.forToken('idle').jobs.list()).toEqual([]);
+    expect(stores.forToken('active').jobs.list()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+
+import { ConcurrencyLimiter } from '../src/api/limiter.js';
+
+// A task that runs until the test calls `finish`
+function deferredTask(name: string, log: string[]) {
+  let finish!: () => void;
+  const done = new Promise<void>((resolve) => (finish = resolve));
+  return {
+    finish,
+    task: async () => {
+      log.push(name);
+      await done;
+      return name;
+    },
+  };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('ConcurrencyLimiter', () => {
+  it('never runs more tasks than its slots', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    const started: string[] = [];
+    const tasks = ['a', 'b', 'c', 'd'].map((name) => deferredTask(name, started));
+
+    const results = tasks.map(({ task }) => limiter.run(task));
+    await flush();
+
+    expect(started).toEqual(['a', 'b']);
+    expect(limiter.activeCount).toBe(2);
+    expect(limiter.pendingCount).toBe(2);
+
+    tasks[0].finish();
+    await flush();
+
+    expect(started).toEqual(['a', 'b', 'c']);
+    expect(limiter.activeCount).toBe(2);
+    expect(limiter.pendingCount).toBe(1);
+
+    tasks.slice(1).forEach(({ finish }) => finish());
+    expect(await Promise.all(results)).toEqual(['a', 'b', 'c', 'd']);
+    expect(limiter.activeCount).toBe(0);
+    expect(limiter.pendingCount).toBe(0);
+  });
+
+  it('starts waiting tasks in the order they were queued', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const started: string[] = [];
+    const tasks = ['first', 'second', 'third', 'fourth'].map((name) =>
+      deferredTask(name, started)
+    );
+
+    const results = tasks.map(({ task }) => limiter.run(task));
+    // Finish in reverse so only the queue decides the order
+    for (const { finish } of [...tasks].reverse()) {
+      finish();
+    }
+    await Promise.all(results);
+
+    expect(started).toEqual(['first', 'second', 'third', 'fourth']);
+  });
+
+  it('frees the slot when a task fails', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+
+    await expect(limiter.run(async () => Promise.reject(new Error('boom')))).rejects.toThrow(
+      'boom'
+    );
+
+    expect(await limiter.run(async () => 'next')).toBe('next');
+    expect(limiter.activeCount).toBe(0);
+  });
+
+  it('rejects a non-positive slot count', () => {
+    expect(() => new ConcurrencyLimiter(0)).toThrow('maxConcurrency must be a positive integer');
+  });
+});
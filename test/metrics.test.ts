@@ -0,0 +1,124 @@
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import express from 'express';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { ConcurrencyLimiter } from '../src/api/limiter.js';
+import { ServerMetrics } from '../src/metrics/registry.js';
+import { createMetricsRouter } from '../src/metrics/router.js';
+import {
+  callTool,
+  connectHttp,
+  HttpServer,
+  MockTaxo,
+  mockEnv,
+  startHttpServer,
+  startMock,
+} from './helpers.js';
+
+const METRICS_TOKEN = 'scraper-token';
+
+describe('metrics endpoint', () => {
+  let listener: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(
+      createMetricsRouter({
+        metrics: new ServerMetrics(new ConcurrencyLimiter(1)),
+        token: METRICS_TOKEN,
+      })
+    );
+    listener = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => listener.once('listening', resolve));
+    url = `http://127.0.0.1:${(listener.address() as AddressInfo).port}/metrics`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => listener.close(resolve));
+  });
+
+  const scrape = (authorization?: string) =>
+    fetch(url, { headers: authorization ? { Authorization: authorization } : {} });
+
+  it('serves metrics to the configured token', async () => {
+    const response = await scrape(`Bearer ${METRICS_TOKEN}`);
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('# TYPE');
+  });
+
+  it.each([
+    ['no token', undefined],
+    ['a wrong token', 'Bearer scraper-tokem'],
+    ['a longer token', `Bearer ${METRICS_TOKEN}x`],
+    ['another scheme', `Basic ${METRICS_TOKEN}`],
+  ])('refuses %s', async (_case, authorization) => {
+    expect((await scrape(authorization)).status).toBe(401);
+  });
+});
+
+describe('tool call metrics', () => {
+  let mock: MockTaxo;
+  let server: HttpServer;
+  let client: Client;
+  let metrics: string;
+
+  beforeAll(async () => {
+    mock = await startMock();
+    server = await startHttpServer(mockEnv(mock, { TAXO_MX_METRICS_TOKEN: METRICS_TOKEN }));
+    client = await connectHttp(server.url);
+
+    await mock.addFault({ path: '/api/v1/contacts', status: 404 });
+    const succeeded = await callTool(client, 'get_compliance_opinion', { rfc: 'EKU9003173C9' });
+    const failed = await callTool(client, 'get_contacts', { rfc: 'EKU9003173C9' });
+    expect([succeeded.isError, failed.isError]).toEqual([false, true]);
+
+    const response = await fetch(`${server.url}/metrics`, {
+      headers: { Authorization: `Bearer ${METRICS_TOKEN}` },
+    });
+    metrics = await response.text();
+  });
+
+  afterAll(async () => {
+    await client?.close();
+    await server?.stop();
+    await mock?.close();
+  });
+
+  // Value of the sample with exactly these labels, in prom-client's label order
+  const sample = (name: string, labels: Record<string, string>) => {
+    const rendered = Object.entries(labels)
+      .map(([label, value]) => `${label}="${value}"`)
+      .join(',');
+    const line = metrics
+      .split('\n')
+      .find((candidate) => candidate.startsWith(`${name}{${rendered}} `));
+    return line === undefined ? undefined : Number(line.split(' ').at(-1));
+  };
+
+  it('counts calls per tool and outcome', () => {
+    const calls = 'taxo_mcp_tool_calls_total';
+
+    expect(sample(calls, { tool: 'get_compliance_opinion', outcome: 'success' })).toBe(1);
+    expect(sample(calls, { tool: 'get_contacts', outcome: 'error' })).toBe(1);
+    expect(sample(calls, { tool: 'get_compliance_opinion', outcome: 'error' })).toBeUndefined();
+  });
+
+  it('labels errors with the Taxo status code', () => {
+    expect(
+      sample('taxo_mcp_tool_errors_total', { tool: 'get_contacts', status_code: '404' })
+    ).toBe(1);
+    expect(metrics).not.toContain('taxo_mcp_tool_errors_total{tool="get_compliance_opinion"');
+  });
+
+  it('records upstream latency by base URL', () => {
+    const baseUrl = new URL(mock.url).origin;
+    const attempts = 'taxo_mcp_upstream_request_duration_seconds_count';
+
+    expect(sample(attempts, { base_url: baseUrl, method: 'GET', status: '200' })).toBe(1);
+    expect(sample(attempts, { base_url: baseUrl, method: 'GET', status: '404' })).toBe(1);
+  });
+});
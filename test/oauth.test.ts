@@ -0,0 +1,109 @@
+import { Response } from 'express';
+import { OAuthClientInformationFull } from '@modelcontextprotocol/sdk/shared/auth.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { TaxoOAuthProvider } from '../src/auth/provider.js';
+
+const TAXO_TOKEN = 'taxo-valid-token';
+const CLIENT = {
+  client_id: 'client-1',
+  client_name: 'Test client',
+  redirect_uris: ['http://localhost/callback'],
+} as OAuthClientInformationFull;
+
+let provider: TaxoOAuthProvider;
+let verified: string[];
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: Date.parse('2025-04-01T12:00:00Z') });
+  verified = [];
+  provider = new TaxoOAuthProvider({
+    verifyTaxoToken: async (token) => {
+      verified.push(token);
+      return token === TAXO_TOKEN;
+    },
+  });
+});
+
+afterEach(() => {
+  provider.close();
+  vi.useRealTimers();
+});
+
+// Starts a sign-in and returns the request ID embedded in the login form
+async function authorize(): Promise<string> {
+  let html = '';
+  const res = { type: () => res, send: (body: string) => (html = body) };
+  await provider.authorize(
+    CLIENT,
+    { redirectUri: 'http://localhost/callback', codeChallenge: 'challenge', state: 'xyz' },
+    res as unknown as Response
+  );
+  return /name="request_id" value="([^"]+)"/.exec(html)![1];
+}
+
+async function signIn(): Promise<string> {
+  const { redirectUrl } = await provider.completeAuthorization(await authorize(), TAXO_TOKEN);
+  const code = new URL(redirectUrl!).searchParams.get('code')!;
+  const tokens = await provider.exchangeAuthorizationCode(CLIENT, code);
+  return tokens.access_token;
+}
+
+describe('TaxoOAuthProvider sign-in', () => {
+  it('redirects with a code and closes the request', async () => {
+    const requestId = await authorize();
+
+    const { redirectUrl } = await provider.completeAuthorization(requestId, TAXO_TOKEN);
+
+    expect(new URL(redirectUrl!).searchParams.get('state')).toBe('xyz');
+    const replay = await provider.completeAuthorization(requestId, TAXO_TOKEN);
+    expect(replay.error).toMatch(/expired/);
+    expect(verified).toEqual([TAXO_TOKEN]);
+  });
+
+  it('lets the user retry a rejected token', async () => {
+    const requestId = await authorize();
+
+    const rejected = await provider.completeAuthorization(requestId, 'typo');
+    const accepted = await provider.completeAuthorization(requestId, TAXO_TOKEN);
+
+    expect(rejected.error).toMatch(/Taxo rejected this token/);
+    expect(accepted.redirectUrl).toBeDefined();
+  });
+
+  it('ends the request after five rejected tokens', async () => {
+    const requestId = await authorize();
+
+    const outcomes = [];
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      outcomes.push(await provider.completeAuthorization(requestId, `guess-${attempt}`));
+    }
+    const afterLimit = await provider.completeAuthorization(requestId, TAXO_TOKEN);
+
+    expect(outcomes.at(3)?.error).toMatch(/Taxo rejected this token/);
+    expect(outcomes.at(4)?.error).toMatch(/Too many rejected tokens/);
+    expect(afterLimit.error).toMatch(/expired/);
+    expect(verified).toHaveLength(5);
+  });
+});
+
+describe('TaxoOAuthProvider expiry', () => {
+  // Entry counts of the provider's stores, which only the sweeper shrinks
+  const sizes = () => {
+    const stores = provider as unknown as Record<string, Map<string, unknown>>;
+    return ['pending', 'codes', 'accessTokens', 'refreshTokens'].map((name) => stores[name].size);
+  };
+
+  it('sweeps expired requests, codes and tokens without a lookup', async () => {
+    await authorize();
+    await provider.completeAuthorization(await authorize(), TAXO_TOKEN);
+    const accessToken = await signIn();
+    expect(sizes()).toEqual([1, 1, 1, 1]);
+
+    // Past the sign-in form and access token lifetimes, within the refresh token's
+    vi.advanceTimersByTime(2 * 60 * 60 * 1000);
+
+    expect(sizes()).toEqual([0, 0, 0, 1]);
+    await expect(provider.verifyAccessToken(accessToken)).rejects.toThrow(/expired/);
+  });
+});
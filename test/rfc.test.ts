@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+
+import { computeRfcCheckDigit, normalizeRfc, validateRfc } from '../src/validation/rfc.js';
+
+describe('validateRfc', () => {
+  it('accepts a persona moral and a persona física with matching check digits', () => {
+    expect(validateRfc('EKU9003173C9')).toMatchObject({
+      valid: true,
+      taxpayerType: 'persona_moral',
+      dateSegment: '900317',
+      homoclave: '3C9',
+      expectedCheckDigit: '9',
+      errors: [],
+    });
+    expect(validateRfc('XOJI740919U48')).toMatchObject({
+      valid: true,
+      taxpayerType: 'persona_fisica',
+      expectedCheckDigit: '8',
+    });
+  });
+
+  it('rejects a wrong check digit and reports the expected one', () => {
+    const result = validateRfc('EKU9003173C8');
+
+    expect(result.valid).toBe(false);
+    expect(result.expectedCheckDigit).toBe('9');
+    expect(result.errors).toEqual(['Check digit 8 does not match the expected 9']);
+  });
+
+  it('accepts the generic RFCs without a check digit', () => {
+    expect(validateRfc('xaxx-010101-000')).toMatchObject({
+      rfc: 'XAXX010101000',
+      valid: true,
+      generic: 'publico_en_general',
+    });
+    expect(validateRfc('XEXX010101000')).toMatchObject({ valid: true, generic: 'extranjero' });
+  });
+
+  it('rejects impossible dates and malformed RFCs', () => {
+    expect(validateRfc('EKU9013173C9').errors).toContain(
+      'Date segment 901317 is not a valid YYMMDD date'
+    );
+    expect(validateRfc('EKU900317').errors).toEqual([
+      'RFC must have 12 characters (persona moral) or 13 characters (persona física), got 9',
+    ]);
+    expect(validateRfc('EK19003173C9').errors).toEqual([
+      'RFC must be 3 letters, 6 digits (YYMMDD) and a 3 character homoclave',
+    ]);
+  });
+});
+
+describe('computeRfcCheckDigit', () => {
+  it('pads personas morales and maps a remainder of 1 to A', () => {
+    expect(computeRfcCheckDigit('EKU9003173C9')).toBe('9');
+    expect(computeRfcCheckDigit('XOJI740919U48')).toBe('8');
+    // 11 - 1 = 10, written as A
+    expect(computeRfcCheckDigit('GODE561231Z8A')).toBe('A');
+    expect(validateRfc('GODE561231Z8A').valid).toBe(true);
+  });
+});
+
+describe('normalizeRfc', () => {
+  it('removes spaces and dashes and upper-cases', () => {
+    expect(normalizeRfc(' xoji-740919 u48 ')).toBe('XOJI740919U48');
+  });
+});
@@ -0,0 +1,238 @@
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import express from 'express';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { createWebhookRouter } from '../src/webhooks/router.js';
+import { signWebhookPayload } from '../src/webhooks/signature.js';
+import { ExtractionResultStore } from '../src/webhooks/store.js';
+import {
+  callTool,
+  connectHttp,
+  freePort,
+  HttpServer,
+  MockTaxo,
+  mockEnv,
+  startHttpServer,
+  startMock,
+} from './helpers.js';
+
+const WEBHOOK_SECRET = 'test-webhook-secret';
+const RFC = 'EKU9003173C9';
+
+interface ResultsBody {
+  count: number;
+  results: { rfc: string; type: string; payload: { task_id: number } }[];
+}
+
+// Polls until `check` passes; webhooks arrive asynchronously
+async function eventually<T>(read: () => Promise<T>, check: (value: T) => boolean): Promise<T> {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const value = await read();
+    if (check(value)) {
+      return value;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  throw new Error('Condition not met in time');
+}
+
+describe('extraction results over HTTP', () => {
+  let mock: MockTaxo;
+  let server: HttpServer;
+  let owner: Client;
+  let stranger: Client;
+
+  beforeAll(async () => {
+    // The mock delivers signed results to the server's webhook receiver
+    const port = await freePort();
+    mock = await startMock({
+      webhook: {
+        url: `http://127.0.0.1:${port}/webhooks/taxo`,
+        secret: WEBHOOK_SECRET,
+        delayMs: 100,
+      },
+    });
+    server = await startHttpServer(mockEnv(mock, { TAXO_MX_WEBHOOK_SECRET: WEBHOOK_SECRET }), port);
+    owner = await connectHttp(server.url);
+    stranger = await connectHttp(server.url, 'some-other-token');
+  });
+
+  afterAll(async () => {
+    await owner?.close();
+    await stranger?.close();
+    await server?.stop();
+    await mock?.close();
+  });
+
+  it('shows results only to the token that requested the extraction', async () => {
+    const requested = await callTool<{ job: { id: string; taskId: string } }>(
+      owner,
+      'extract_compliance_opinion',
+      { rfc: RFC }
+    );
+    expect(requested.isError).toBe(false);
+    // The mock rejects this token, so its request fails and owns nothing
+    const refused = await callTool(stranger, 'extract_compliance_opinion', { rfc: RFC });
+    expect(refused.isError).toBe(true);
+
+    const { body } = await eventually(
+      () => callTool<ResultsBody>(owner, 'get_extraction_results', { rfc: RFC }),
+      ({ body }) => body.count > 0
+    );
+    expect(body.results).toEqual([
+      expect.objectContaining({
+        rfc: RFC,
+        type: 'oc',
+        payload: expect.objectContaining({ task_id: Number(requested.body.job.taskId) }),
+      }),
+    ]);
+
+    const other = await callTool<ResultsBody>(stranger, 'get_extraction_results', { rfc: RFC });
+    expect(other.body).toEqual({ count: 0, results: [] });
+  });
+});
+
+describe('result notifications in stateful sessions', () => {
+  const OTHER_TOKEN = 'second-taxo-token';
+  const WEBHOOK_DELAY_MS = 1_500;
+  let mock: MockTaxo;
+  let server: HttpServer;
+  const clients: Client[] = [];
+
+  beforeAll(async () => {
+    const port = await freePort();
+    mock = await startMock({
+      extraTokens: [OTHER_TOKEN],
+      webhook: {
+        url: `http://127.0.0.1:${port}/webhooks/taxo`,
+        secret: WEBHOOK_SECRET,
+        delayMs: WEBHOOK_DELAY_MS,
+      },
+    });
+    server = await startHttpServer(
+      mockEnv(mock, { TAXO_MX_WEBHOOK_SECRET: WEBHOOK_SECRET, TAXO_MX_SESSION_MODE: 'stateful' }),
+      port
+    );
+  });
+
+  afterAll(async () => {
+    for (const client of clients) {
+      await client.close();
+    }
+    await server?.stop();
+    await mock?.close();
+  });
+
+  // Connects with a token and collects the extraction events pushed to the session
+  const connect = async (token?: string) => {
+    const client = await connectHttp(server.url, token);
+    clients.push(client);
+    const events: unknown[] = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+      events.push(notification.params.data);
+    });
+    return { client, events };
+  };
+
+  it('notifies only the session whose job the result answers', async () => {
+    const first = await connect();
+    const second = await connect(OTHER_TOKEN);
+
+    // Same taxpayer and type; the second webhook arrives well after the first
+    await callTool(first.client, 'extract_compliance_opinion', { rfc: RFC });
+    await new Promise((resolve) => setTimeout(resolve, WEBHOOK_DELAY_MS / 2));
+    await callTool(second.client, 'extract_compliance_opinion', { rfc: RFC });
+
+    await eventually(async () => first.events.length, (count) => count > 0);
+    expect(first.events).toEqual([
+      expect.objectContaining({
+        event: 'extraction_completed',
+        jobs: [expect.objectContaining({ status: 'completed', completedVia: 'webhook' })],
+      }),
+    ]);
+
+    // list_extractions reads jobs without polling Taxo
+    const { body } = await callTool<{ jobs: { status: string }[] }>(
+      second.client,
+      'list_extractions'
+    );
+    expect(second.events).toEqual([]);
+    expect(body.jobs).toEqual([expect.objectContaining({ status: 'pending' })]);
+
+    await eventually(async () => second.events.length, (count) => count > 0);
+  });
+});
+
+describe('webhook replay protection', () => {
+  const TOLERANCE_SECONDS = 2;
+  let listener: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(
+      '/webhooks/taxo',
+      createWebhookRouter({
+        secret: WEBHOOK_SECRET,
+        toleranceSeconds: TOLERANCE_SECONDS,
+        store: new ExtractionResultStore(),
+      })
+    );
+    listener = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => listener.once('listening', resolve));
+    url = `http://127.0.0.1:${(listener.address() as AddressInfo).port}/webhooks/taxo`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => listener.close(resolve));
+  });
+
+  const sign = (timestamp: number, body: string) =>
+    `sha256=${signWebhookPayload(WEBHOOK_SECRET, String(timestamp), body)}`;
+
+  const deliver = (timestamp: number, body: string, signature = sign(timestamp, body)) =>
+    fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Taxo-Timestamp': String(timestamp),
+        'X-Taxo-Signature': signature,
+      },
+      body,
+    });
+
+  it('rejects a repeated delivery', async () => {
+    const body = JSON.stringify({ rfc: RFC, extraction_type: 'oc', task_id: 1 });
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    expect((await deliver(timestamp, body)).status).toBe(202);
+    expect((await deliver(timestamp, body)).status).toBe(409);
+  });
+
+  it.each([
+    ['without the sha256= prefix', (signature: string) => signature.slice('sha256='.length)],
+    ['in uppercase hex', (signature: string) => `sha256=${signature.slice(7).toUpperCase()}`],
+    ['with trailing characters', (signature: string) => `${signature}zz`],
+  ])('refuses a re-encoded signature %s', async (variant, reencode) => {
+    const body = JSON.stringify({ rfc: RFC, extraction_type: 'oc', task_id: 3, variant });
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = sign(timestamp, body);
+
+    expect((await deliver(timestamp, body, reencode(signature))).status).toBe(401);
+    expect((await deliver(timestamp, body, signature)).status).toBe(202);
+    expect((await deliver(timestamp, body, reencode(signature))).status).toBe(401);
+  });
+
+  it('rejects a replay for as long as a future timestamp stays valid', async () => {
+    const body = JSON.stringify({ rfc: RFC, extraction_type: 'oc', task_id: 2 });
+    const timestamp = Math.floor(Date.now() / 1000) + TOLERANCE_SECONDS;
+
+    expect((await deliver(timestamp, body)).status).toBe(202);
+    // Past the tolerance since first seen, but the timestamp is still inside the window
+    await new Promise((resolve) => setTimeout(resolve, (TOLERANCE_SECONDS + 0.2) * 1000));
+    expect((await deliver(timestamp, body)).status).toBe(409);
+  });
+});